@@ -0,0 +1,308 @@
+import path from "path";
+import fs from "fs-extra";
+import os from "os";
+import { createHash, randomUUID } from "crypto";
+import { computeFileSha256 } from "./checksum.js";
+import { CacheEntry, CachePruneOptions } from "./types.js";
+
+export const CACHE_DIR_ENV_KEY = "TINY_RUNTIME_INJECTOR_CACHE_DIR";
+
+const DISABLED_ENV_VALUES = ["0", "false", "off", "none"];
+
+export function getDefaultCacheDir(): string {
+  if (process.env.XDG_CACHE_HOME) {
+    return path.join(process.env.XDG_CACHE_HOME, "tiny-runtime-injector");
+  }
+
+  if (process.platform === "win32" && process.env.LOCALAPPDATA) {
+    return path.join(process.env.LOCALAPPDATA, "tiny-runtime-injector", "Cache");
+  }
+
+  if (process.platform === "darwin") {
+    return path.join(os.homedir(), "Library", "Caches", "tiny-runtime-injector");
+  }
+
+  return path.join(os.homedir(), ".cache", "tiny-runtime-injector");
+}
+
+/**
+ * Resolves the cache directory from the explicit option, then the
+ * TINY_RUNTIME_INJECTOR_CACHE_DIR env var, then the platform default.
+ * Returns undefined when caching is disabled.
+ */
+export function resolveCacheDir(cacheDir?: string | false): string | undefined {
+  if (cacheDir === false) {
+    return undefined;
+  }
+
+  if (cacheDir) {
+    return path.resolve(cacheDir);
+  }
+
+  const envValue = process.env[CACHE_DIR_ENV_KEY]?.trim();
+  if (envValue) {
+    return DISABLED_ENV_VALUES.includes(envValue.toLowerCase())
+      ? undefined
+      : path.resolve(envValue);
+  }
+
+  return getDefaultCacheDir();
+}
+
+function hashUrl(url: string): string {
+  return createHash("sha256").update(url).digest("hex");
+}
+
+/** A partial download file this process may write to, until `release` is called */
+export interface PartialDownload {
+  path: string;
+  release: () => Promise<void>;
+}
+
+// Written into a partial file's `.lock` so other processes can tell whether it is still held
+interface PartialLockOwner {
+  pid: number;
+  hostname: string;
+}
+
+/** A lock is stale once the process that took it on this host has exited */
+async function isStaleLock(lockPath: string): Promise<boolean> {
+  const owner = (await fs.readJson(lockPath).catch(() => undefined)) as
+    | PartialLockOwner
+    | undefined;
+  if (!owner || owner.hostname !== os.hostname()) {
+    return false;
+  }
+  try {
+    process.kill(owner.pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
+
+/** Creates `lockPath` exclusively, taking over a stale lock once; false if it is held */
+async function acquireLock(lockPath: string): Promise<boolean> {
+  const owner: PartialLockOwner = { pid: process.pid, hostname: os.hostname() };
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await fs.writeFile(lockPath, JSON.stringify(owner), { flag: "wx" });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+    if (!(await isStaleLock(lockPath))) {
+      return false;
+    }
+    await fs.remove(lockPath);
+  }
+  return false;
+}
+
+/**
+ * Content-addressed store for downloaded archives. Archives live under
+ * `content/<sha256>`; `index/<sha256(url)>.json` maps each URL to the hash
+ * it was verified against.
+ */
+export class DownloadCache {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private get contentDir(): string {
+    return path.join(this.dir, "content");
+  }
+
+  private get indexDir(): string {
+    return path.join(this.dir, "index");
+  }
+
+  private get partialDir(): string {
+    return path.join(this.dir, "partial");
+  }
+
+  /** Where an interrupted download of `url` is kept so the next attempt can resume it */
+  getPartialPath(url: string): string {
+    return path.join(this.partialDir, hashUrl(url));
+  }
+
+  /**
+   * Claims the partial file for `url` with a `.lock` next to it, so only one
+   * download at a time writes to it and resumes from it. While another
+   * download holds the lock, this one gets a private partial file that is
+   * removed on release instead of being kept for a later resume.
+   */
+  async claimPartial(url: string): Promise<PartialDownload> {
+    const partialPath = this.getPartialPath(url);
+    const lockPath = `${partialPath}.lock`;
+    await fs.ensureDir(this.partialDir);
+    if (await acquireLock(lockPath)) {
+      return { path: partialPath, release: () => fs.remove(lockPath) };
+    }
+
+    const privatePath = `${partialPath}.${randomUUID()}`;
+    return {
+      path: privatePath,
+      release: async () => {
+        await fs.remove(privatePath);
+        await fs.remove(`${privatePath}.json`);
+      },
+    };
+  }
+
+  private getContentPath(sha256: string): string {
+    return path.join(this.contentDir, sha256);
+  }
+
+  private getIndexPath(url: string): string {
+    return path.join(this.indexDir, `${hashUrl(url)}.json`);
+  }
+
+  private async readIndexEntry(indexPath: string): Promise<CacheEntry | undefined> {
+    try {
+      return (await fs.readJson(indexPath)) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the cached archive for `url`, or undefined on a miss. When the
+   * expected hash is known, any archive with that content is a hit. Entries
+   * whose content no longer matches their hash are evicted.
+   */
+  async lookup(url: string, sha256?: string): Promise<string | undefined> {
+    const indexPath = this.getIndexPath(url);
+    const entry = await this.readIndexEntry(indexPath);
+    const contentHash = sha256 ?? entry?.sha256;
+    if (!contentHash) {
+      return undefined;
+    }
+
+    const contentPath = this.getContentPath(contentHash);
+    if (!(await fs.pathExists(contentPath))) {
+      return undefined;
+    }
+
+    if ((await computeFileSha256(contentPath)) !== contentHash) {
+      await fs.remove(contentPath);
+      return undefined;
+    }
+
+    if (entry && entry.sha256 === contentHash) {
+      await fs.writeJson(
+        indexPath,
+        { ...entry, lastUsedAt: new Date().toISOString() },
+        { spaces: 2 }
+      );
+    }
+    return contentPath;
+  }
+
+  /** The hash `url` was verified against when it was stored, if it is cached */
+  async getRecordedSha256(url: string): Promise<string | undefined> {
+    return (await this.readIndexEntry(this.getIndexPath(url)))?.sha256;
+  }
+
+  async store(url: string, filePath: string, sha256: string): Promise<void> {
+    const contentPath = this.getContentPath(sha256);
+    if (!(await fs.pathExists(contentPath))) {
+      // Copy to a unique temp name first so concurrent readers never see a partial file
+      const tempPath = `${contentPath}.${randomUUID()}.tmp`;
+      await fs.ensureDir(this.contentDir);
+      await fs.copy(filePath, tempPath);
+      await fs.move(tempPath, contentPath, { overwrite: true });
+    }
+
+    const now = new Date().toISOString();
+    const { size } = await fs.stat(contentPath);
+    const entry: CacheEntry = {
+      url,
+      sha256,
+      size,
+      fileName: path.basename(new URL(url).pathname),
+      createdAt: now,
+      lastUsedAt: now,
+    };
+    await fs.outputJson(this.getIndexPath(url), entry, { spaces: 2 });
+  }
+
+  async list(): Promise<CacheEntry[]> {
+    if (!(await fs.pathExists(this.indexDir))) {
+      return [];
+    }
+
+    const entries: CacheEntry[] = [];
+    for (const file of await fs.readdir(this.indexDir)) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      const entry = await this.readIndexEntry(path.join(this.indexDir, file));
+      if (entry && (await fs.pathExists(this.getContentPath(entry.sha256)))) {
+        entries.push(entry);
+      }
+    }
+
+    return entries.sort((a, b) => a.url.localeCompare(b.url));
+  }
+
+  /**
+   * Removes entries not used within `maxAgeDays` (default 30) as well as
+   * dangling index entries, content that no entry points to and interrupted
+   * downloads that were not resumed within `maxAgeDays`.
+   */
+  async prune(options: CachePruneOptions = {}): Promise<CacheEntry[]> {
+    const { maxAgeDays = 30 } = options;
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    const removed: CacheEntry[] = [];
+    const referenced = new Set<string>();
+
+    if (await fs.pathExists(this.indexDir)) {
+      for (const file of await fs.readdir(this.indexDir)) {
+        const indexPath = path.join(this.indexDir, file);
+        const entry = await this.readIndexEntry(indexPath);
+        const exists =
+          entry && (await fs.pathExists(this.getContentPath(entry.sha256)));
+
+        if (!entry || !exists || Date.parse(entry.lastUsedAt) < cutoff) {
+          await fs.remove(indexPath);
+          if (entry && exists) {
+            removed.push(entry);
+          }
+          continue;
+        }
+
+        referenced.add(entry.sha256);
+      }
+    }
+
+    if (await fs.pathExists(this.contentDir)) {
+      for (const file of await fs.readdir(this.contentDir)) {
+        if (!referenced.has(file)) {
+          await fs.remove(path.join(this.contentDir, file));
+        }
+      }
+    }
+
+    if (await fs.pathExists(this.partialDir)) {
+      for (const file of await fs.readdir(this.partialDir)) {
+        // A `.json` sidecar goes with its partial download; a `.lock` ages on its own
+        const partialPath = path.join(this.partialDir, file.replace(/\.json$/, ""));
+        const stats = await fs.stat(partialPath).catch(() => undefined);
+        if (!stats || stats.mtimeMs < cutoff) {
+          await fs.remove(path.join(this.partialDir, file));
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  async clean(): Promise<void> {
+    await fs.remove(this.dir);
+  }
+}
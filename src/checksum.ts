@@ -0,0 +1,110 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { pipeline } from "node:stream/promises";
+import { ConfigError } from "./errors.js";
+import { ChecksumSource } from "./types.js";
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/i;
+
+export function normalizeSha256(value: string): string {
+  const normalized = value.trim().toLowerCase().replace(/^sha256[:-]/, "");
+  if (!SHA256_PATTERN.test(normalized)) {
+    throw new ConfigError(`Invalid SHA-256 checksum: ${value}`);
+  }
+  return normalized;
+}
+
+export async function computeFileSha256(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+export function getAssetNameFromUrl(url: string): string {
+  const pathname = new URL(url).pathname;
+  return decodeURIComponent(pathname.slice(pathname.lastIndexOf("/") + 1));
+}
+
+export function resolveChecksumUrl(
+  source: ChecksumSource,
+  downloadUrl: string
+): string {
+  if (source.kind === "sidecar") {
+    return `${downloadUrl}${source.suffix ?? ".sha256"}`;
+  }
+
+  // Manifest files are published next to the archives they describe
+  return new URL(source.fileName, downloadUrl).toString();
+}
+
+interface ChecksumEntry {
+  hash: string;
+  fileName: string;
+}
+
+// `Get-FileHash | Format-List` prints `Algorithm : SHA256`, `Hash : <hash>` and `Path : <file>` lines
+const FORMAT_LIST_PATTERN = /^(\w+)\s*:\s*(.*)$/;
+
+function parseFormatList(lines: string[]): ChecksumEntry[] {
+  const entries: ChecksumEntry[] = [];
+  for (const line of lines) {
+    const [, key = "", value = ""] = FORMAT_LIST_PATTERN.exec(line) ?? [];
+    if (key.toLowerCase() === "hash") {
+      entries.push({ hash: value, fileName: "" });
+    } else if (key.toLowerCase() === "path" && entries.length > 0) {
+      entries[entries.length - 1].fileName = value;
+    }
+  }
+  return entries;
+}
+
+function parseColumns(lines: string[]): ChecksumEntry[] {
+  return lines.map((line) => {
+    const columns = line.split(/\s+/);
+    if (columns[0].toUpperCase() === "SHA256" && columns.length > 1) {
+      columns.shift();
+    }
+    const [hash, ...rest] = columns;
+    const fileName = rest.join(" ").replace(/^\*/, "").replace(/^\.\//, "");
+    return { hash, fileName };
+  });
+}
+
+/**
+ * Finds the checksum for `assetName` in a `sha256sum`-style listing.
+ * Sidecar files often contain a bare hash without a file name, which is
+ * accepted when it is the only entry. PowerShell `Get-FileHash` output is
+ * accepted too, both as a table (`SHA256  <hash>  C:\path\file.zip`) and
+ * in the `Format-List` form Deno publishes for its Windows builds.
+ */
+export function findChecksum(
+  content: string,
+  assetName: string
+): string | undefined {
+  const lines = content
+    // Windows PowerShell redirects output as UTF-16, which arrives with NULs between characters
+    .replace(/\u0000|^\ufeff|^\ufffd+/g, "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const isFormatList = lines.some((line) => /^hash\s*:/i.test(line));
+  const entries = (isFormatList ? parseFormatList(lines) : parseColumns(lines)).filter(
+    (entry) => SHA256_PATTERN.test(entry.hash)
+  );
+
+  const match = entries.find(
+    (entry) =>
+      entry.fileName === assetName ||
+      entry.fileName.endsWith(`/${assetName}`) ||
+      entry.fileName.endsWith(`\\${assetName}`)
+  );
+  if (match) {
+    return match.hash.toLowerCase();
+  }
+
+  if (entries.length === 1 && !entries[0].fileName) {
+    return entries[0].hash.toLowerCase();
+  }
+
+  return undefined;
+}
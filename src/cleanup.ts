@@ -0,0 +1,186 @@
+import path from "path";
+import fs from "fs-extra";
+import { glob } from "glob";
+import { ConfigError } from "./errors.js";
+import { consoleLogger } from "./logger.js";
+import {
+  CleanupConfig,
+  CleanupReport,
+  CleanupRule,
+  CleanupRuleReport,
+  Logger,
+} from "./types.js";
+
+const DOC_PATTERNS = ["**/*.md", "**/docs/**", "**/doc/**"];
+const DEV_FILE_PATTERNS = ["**/*.h", "**/*.cc", "**/*.cpp", "**/*.c", "include/**"];
+const SOURCE_MAP_PATTERNS = ["**/*.map"];
+
+// Unix Node.js tarballs add man pages and dtrace/systemtap files under share/
+const NODE_PLATFORM_DOC_PATTERNS: Record<string, string[]> = {
+  darwin: ["share/**"],
+  linux: ["share/**"],
+};
+
+export function isKeepPattern(pattern: string): boolean {
+  return pattern.startsWith("!");
+}
+
+export function getCleanupProfilePatterns(
+  runtimeType: string,
+  profiles: Record<string, string[]> = {},
+  profile = "default"
+): string[] {
+  if (profiles[profile]) {
+    return profiles[profile];
+  }
+  if (profile === "default") {
+    return [];
+  }
+
+  const available = ["default", ...Object.keys(profiles).filter((name) => name !== "default")];
+  throw new ConfigError(
+    `Unknown cleanup profile "${profile}" for ${runtimeType}. Available profiles: ${available.join(", ")}`
+  );
+}
+
+/**
+ * Lists the rules `config` applies to a runtime, in order: the docs/dev
+ * files/source map switches, on by default for Node.js only, the runtime's
+ * cleanup profile, then the custom rules. Patterns starting with
+ * "!" keep matching files no matter which rule would remove them.
+ */
+export function getCleanupRules(
+  runtimeType: string,
+  platform: string,
+  config: CleanupConfig,
+  profiles?: Record<string, string[]>
+): CleanupRule[] {
+  const rules: CleanupRule[] = [];
+  const addRules = (patterns: string[], description: string) => {
+    rules.push(...patterns.map((pattern) => ({ pattern, description })));
+  };
+
+  // Other runtimes need headers for native builds (e.g. Python's include/), so they opt in
+  const isNode = runtimeType === "node";
+  const { removeDocs = isNode, removeDevFiles = isNode, removeSourceMaps = isNode } = config;
+  if (removeDocs) {
+    const platformDocs = isNode ? (NODE_PLATFORM_DOC_PATTERNS[platform] ?? []) : [];
+    addRules([...DOC_PATTERNS, ...platformDocs], "documentation");
+  }
+  if (removeDevFiles) {
+    addRules(DEV_FILE_PATTERNS, "development files");
+  }
+  if (removeSourceMaps) {
+    addRules(SOURCE_MAP_PATTERNS, "source maps");
+  }
+
+  const profile = config.profile ?? "default";
+  addRules(
+    getCleanupProfilePatterns(runtimeType, profiles, profile),
+    `${profile} cleanup profile`
+  );
+  rules.push(...(config.customRules ?? []));
+  return rules;
+}
+
+// "!include/node" keeps the directory's contents, not just an entry of that name
+function getIgnorePatterns(rules: CleanupRule[]): string[] {
+  return rules
+    .filter((rule) => isKeepPattern(rule.pattern))
+    .flatMap((rule) => {
+      const pattern = rule.pattern.slice(1).replace(/\/+$/, "");
+      return pattern.endsWith("/**") ? [pattern] : [pattern, `${pattern}/**`];
+    });
+}
+
+async function pruneEmptyDirs(targetDir: string, dirs: Set<string>): Promise<void> {
+  const root = path.resolve(targetDir);
+  // Deepest first so emptied parents are seen after their children
+  const pending = [...dirs].sort((a, b) => b.length - a.length);
+  for (let dir of pending) {
+    while (dir.startsWith(`${root}${path.sep}`)) {
+      const entries = await fs.readdir(dir).catch(() => undefined);
+      if (!entries || entries.length > 0) {
+        break;
+      }
+      await fs.rmdir(dir);
+      dir = path.dirname(dir);
+    }
+  }
+}
+
+export async function getDirectorySize(dir: string): Promise<number> {
+  let size = 0;
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      size += await getDirectorySize(entryPath);
+    } else {
+      size += (await fs.lstat(entryPath)).size;
+    }
+  }
+  return size;
+}
+
+/**
+ * Removes the files matched by `rules` from `targetDir`, skipping anything a
+ * keep pattern matches, then removes directories the cleanup left empty.
+ * With `dryRun` nothing is removed; the report is the same either way.
+ */
+export async function applyCleanupRules(
+  targetDir: string,
+  rules: CleanupRule[],
+  dryRun = false,
+  logger: Logger = consoleLogger
+): Promise<CleanupReport> {
+  const ignore = getIgnorePatterns(rules);
+  const sizeBefore = await getDirectorySize(targetDir);
+  const seen = new Set<string>();
+  const emptiedDirs = new Set<string>();
+  const ruleReports: CleanupRuleReport[] = [];
+
+  for (const rule of rules) {
+    if (isKeepPattern(rule.pattern)) {
+      continue;
+    }
+
+    const report: CleanupRuleReport = { ...rule, files: [], bytes: 0 };
+    ruleReports.push(report);
+    try {
+      const files = await glob(rule.pattern, {
+        cwd: targetDir,
+        absolute: true,
+        nodir: true,
+        ignore,
+      });
+      for (const file of files.sort()) {
+        if (seen.has(file)) {
+          continue;
+        }
+        seen.add(file);
+        report.files.push(path.relative(targetDir, file));
+        report.bytes += (await fs.lstat(file)).size;
+        if (!dryRun) {
+          await fs.remove(file);
+          emptiedDirs.add(path.dirname(file));
+        }
+      }
+      logger.info(
+        `${dryRun ? "Would remove" : "Removed"} ${report.files.length} files (${report.bytes} bytes) for pattern ${rule.pattern}`
+      );
+    } catch (error) {
+      logger.error(`Error cleaning up pattern ${rule.pattern}: ${error}`);
+    }
+  }
+
+  await pruneEmptyDirs(targetDir, emptiedDirs);
+
+  const bytesSaved = ruleReports.reduce((total, report) => total + report.bytes, 0);
+  return {
+    dryRun,
+    rules: ruleReports,
+    sizeBefore,
+    sizeAfter: sizeBefore - bytesSaved,
+    bytesSaved,
+  };
+}
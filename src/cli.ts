@@ -1,73 +1,361 @@
 #!/usr/bin/env node
 
-import { program } from "commander";
-import { RuntimeInjector } from "./index.js";
+import { OptionValues, program } from "commander";
+import {
+  DownloadCache,
+  ErrorCode,
+  RuntimeInjector,
+  RuntimeInjectorError,
+  getManifestLockfilePath,
+  getRuntimeTypes,
+  injectAll,
+  isRuntimeRegistered,
+  listVersions,
+  loadManifest,
+  registerRuntimeDefinitions,
+  createConsoleLogger,
+  resolveCacheDir,
+  verifyInstall,
+} from "./index.js";
 import fs from "fs-extra";
 import path from "path";
 import { fileURLToPath } from "url";
-import { RuntimeType, RuntimeOptions } from "./types.js";
+import {
+  CleanupReport,
+  DownloadOptions,
+  InjectEvent,
+  Logger,
+  LogLevel,
+  RuntimeDefinition,
+  RuntimeType,
+  RuntimeOptions,
+} from "./types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 program
   .name("tiny-runtime-injector")
-  .description("下载并配置最小化的运行时环境 (Node.js, Bun, uv, ripgrep, Python, rtk)")
+  .description("下载并配置最小化的运行时环境 (Node.js, Bun, uv, ripgrep, Python, rtk, Deno)")
   .version("1.2.0")
-  .option("-t, --type <type>", "运行时类型 (node, bun, uv, ripgrep, python, rtk)", "node")
+  .option(
+    "-t, --type <type>",
+    "运行时类型 (node, bun, uv, ripgrep, python, rtk, deno，或配置文件 runtimeDefinitions 中定义的类型)",
+    "node"
+  )
   .option(
     "-r, --runtime-version <version>",
-    "运行时版本 (例如: v24.12.0 for node, v1.3.5 for bun, 0.9.18 for uv, latest/v0.30.0/0.30.0 for rtk)"
+    "运行时版本，支持精确版本、别名和 semver 范围 (例如: v24.12.0/lts/22.x for node, v1.3.5/^1.3 for bun, 0.9.18 for uv, 3.12 for python, latest/v0.30.0 for rtk)"
   )
   .option("-d, --dir <directory>", "目标目录", "./runtime")
   .option("-p, --platform <platform>", "目标平台")
-  .option("-a, --arch <architecture>", "目标架构")
+  .option("-a, --arch <architecture>", "目标架构 (macOS 可使用 universal 合并 x64 和 arm64)")
   .option("-c, --config <config>", "配置文件路径")
-  .option("--no-cleanup", "禁用清理功能 (仅对 Node.js 有效)")
-  .option("--no-docs", "保留文档文件 (仅对 Node.js 有效)")
-  .option("--no-dev", "保留开发文件 (仅对 Node.js 有效)")
-  .option("--no-sourcemaps", "保留源码映射文件 (仅对 Node.js 有效)")
+  .option("-m, --manifest <file>", "多运行时清单文件 (例如 runtimes.json)，一次安装多个运行时")
+  .option("--concurrency <n>", "清单模式下的最大并行安装数", (value) => parseInt(value, 10))
+  .option("--no-cleanup", "禁用清理功能")
+  .option("--cleanup-profile <name>", "运行时清理配置 (例如 Python 的 minimal)")
+  .option("--dry-run", "清理演练：列出每条规则将删除的文件和节省的空间，不修改目标目录")
+  .option("--cleanup-report <file>", "将清理报告以 JSON 格式写入文件，便于 CI 跟踪运行时体积")
+  .option("--docs", "删除文档文件 (Node.js 默认删除，其他运行时默认保留)")
+  .option("--no-docs", "保留文档文件")
+  .option("--dev", "删除开发文件 (C/C++ 源码和头文件；Node.js 默认删除，其他运行时默认保留)")
+  .option("--no-dev", "保留开发文件")
+  .option("--sourcemaps", "删除源码映射文件 (Node.js 默认删除，其他运行时默认保留)")
+  .option("--no-sourcemaps", "保留源码映射文件")
   .option("--http-proxy <url>", "HTTP 代理 (同 HTTP_PROXY)")
   .option("--https-proxy <url>", "HTTPS 代理 (同 HTTPS_PROXY)")
   .option("--no-proxy <list>", "不走代理的主机列表 (同 NO_PROXY)")
+  .option("--expected-sha256 <hash>", "期望的压缩包 SHA-256，用于固定/离线校验")
+  .option(
+    "--lockfile [path]",
+    "写入/使用锁文件，记录解析后的版本、下载地址和 SHA-256 (默认位于清单或目标目录旁)"
+  )
+  .option("--frozen", "严格按照锁文件安装，任何偏差都会报错")
+  .option(
+    "--cache-dir <directory>",
+    "下载缓存目录 (同 TINY_RUNTIME_INJECTOR_CACHE_DIR)"
+  )
+  .option("--no-cache", "禁用下载缓存")
+  .option("--archive <file>", "使用本地压缩包安装，不再下载")
+  .option(
+    "--mirror-dir <directory>",
+    "本地镜像目录，按上游地址布局 (例如 <dir>/nodejs.org/dist/v24.12.0/...)"
+  )
+  .option("--offline", "离线模式：需要联网时立即失败")
+  .option("--retries <n>", "下载失败后的重试次数 (默认 3，按指数退避)", (value) => parseInt(value, 10))
+  .option("--connect-timeout <ms>", "等待下载响应的超时时间，单位毫秒 (默认 30000)", (value) =>
+    parseInt(value, 10)
+  )
+  .option("--idle-timeout <ms>", "下载中无数据到达的超时时间，单位毫秒 (默认 60000)", (value) =>
+    parseInt(value, 10)
+  )
+  .option("--log-level <level>", "日志级别：debug、info (默认)、warn、error 或 silent")
+  .option(
+    "--verify <mode>",
+    "已安装运行时的校验方式：auto (默认，仅目标与本机一致时运行可执行文件)、exec 或 static (校验文件哈希和二进制头)"
+  )
+  .option(
+    "--mirror <url>",
+    "下载镜像：基础地址或包含 {version}/{tag}/{platform}/{arch}/{fileName} 的模板"
+  )
   .option(
     "--custom-rules <rules>",
-    "自定义清理规则 (JSON 字符串, 仅对 Node.js 有效)"
+    "自定义清理规则 (JSON 字符串)"
   )
-  .parse();
+  .option("--npm-packages <list>", "安装后预装的全局 npm 包，逗号分隔 (仅对 Node.js 有效)")
+  .option("--npm-tarball-dir <directory>", "从本地 npm pack 压缩包目录安装 npm 包，不访问 registry")
+  .option("--npm-registry <url>", "安装 npm 包时使用的 registry")
+  .option("--python-packages <list>", "安装后预装的 Python 包，逗号分隔 (仅对 Python 有效)")
+  .option("--requirements <file>", "安装后按 requirements.txt 预装 Python 包")
+  .option("--pyproject <file>", "安装后按 pyproject.toml 预装项目及其依赖")
+  .option("--no-venv", "直接装入运行时的 site-packages，不创建虚拟环境")
+  .option("--uv <path>", "使用指定的 uv 可执行文件安装 Python 包 (默认使用自带的 pip)")
+  .option("--find-links <directory>", "仅从本地 wheel 目录安装 Python 包，不访问包索引")
+  .action((cliOptions: OptionValues) => main(cliOptions));
+
+// Every subcommand accepts the custom runtime types defined in the -c/--config file
+program.hook("preAction", async (_program, actionCommand) => {
+  try {
+    const config = await readConfigFile(actionCommand.optsWithGlobals());
+    if (config?.runtimeDefinitions) {
+      registerRuntimeDefinitions(config.runtimeDefinitions);
+    }
+  } catch (error) {
+    exitWithError("读取配置文件失败", error);
+  }
+});
+
+const MANIFEST_STATUS_LABELS = {
+  installed: "已安装",
+  skipped: "已是最新",
+  "dry-run": "清理演练",
+  failed: "失败",
+} as const;
 
-const options = program.opts();
+// Distinct exit codes let scripts react to a failure without parsing messages
+const ERROR_EXIT_CODES: Record<ErrorCode, number> = {
+  UNSUPPORTED_PLATFORM: 3,
+  VERSION_NOT_FOUND: 4,
+  DOWNLOAD_FAILED: 5,
+  CHECKSUM_MISMATCH: 6,
+  EXTRACTION_FAILED: 7,
+  GITHUB_AUTH: 8,
+  GITHUB_RATE_LIMIT: 9,
+  LOCKFILE: 10,
+  OFFLINE: 11,
+  ARCHIVE_NOT_FOUND: 12,
+  INVALID_CONFIG: 13,
+  VERIFY_FAILED: 14,
+  COMMAND_FAILED: 15,
+};
 
-async function main() {
+function getExitCode(error: unknown): number {
+  return error instanceof RuntimeInjectorError ? ERROR_EXIT_CODES[error.code] : 1;
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return error instanceof RuntimeInjectorError ? `[${error.code}] ${message}` : message;
+}
+
+function exitWithError(label: string, error: unknown): never {
+  console.error(`${label}: ${describeError(error)}`);
+  process.exit(getExitCode(error));
+}
+
+function validateRuntimeType(type: string): void {
+  if (!isRuntimeRegistered(type)) {
+    console.error(
+      `错误: 不支持的运行时类型 "${type}". 支持的类型: ${getRuntimeTypes().join(", ")}`
+    );
+    process.exit(ERROR_EXIT_CODES.INVALID_CONFIG);
+  }
+}
+
+function printCleanupReport(report: CleanupReport): void {
+  console.log(report.dryRun ? "清理演练 (未删除任何文件):" : "清理报告:");
+  for (const rule of report.rules) {
+    if (rule.files.length === 0) {
+      continue;
+    }
+    const description = rule.description ? ` (${rule.description})` : "";
+    console.log(
+      `  ${rule.pattern}${description}: ${rule.files.length} 个文件, ${formatBytes(rule.bytes)}`
+    );
+    for (const file of rule.files) {
+      console.log(`    ${file}`);
+    }
+  }
+  console.log(
+    `  清理前 ${formatBytes(report.sizeBefore)}, 清理后 ${formatBytes(report.sizeAfter)}, 节省 ${formatBytes(report.bytesSaved)}`
+  );
+}
+
+function withCleanupDryRun(cleanup: RuntimeOptions["cleanup"]): RuntimeOptions["cleanup"] {
+  if (cleanup === false) {
+    return false;
+  }
+  return { ...(typeof cleanup === "object" ? cleanup : {}), dryRun: true };
+}
+
+/** Reads the -c/--config file, if one was given, exiting when it does not exist */
+async function readConfigFile(
+  options: OptionValues
+): Promise<{ runtimeDefinitions?: Record<string, RuntimeDefinition> } | undefined> {
+  if (!options.config) {
+    return undefined;
+  }
+
+  const configPath = path.resolve(process.cwd(), options.config);
+  if (!(await fs.pathExists(configPath))) {
+    console.error(`配置文件不存在: ${configPath}`);
+    process.exit(1);
+  }
+  return fs.readJson(configPath);
+}
+
+function getCacheDirOption(options: OptionValues): string | false | undefined {
+  return options.cache === false ? false : options.cacheDir;
+}
+
+function withDownloadOptions(
+  download: DownloadOptions | undefined,
+  options: OptionValues
+): DownloadOptions | undefined {
+  const overrides: DownloadOptions = {};
+  if (options.retries !== undefined) {
+    overrides.retries = options.retries;
+  }
+  if (options.connectTimeout !== undefined) {
+    overrides.connectTimeout = options.connectTimeout;
+  }
+  if (options.idleTimeout !== undefined) {
+    overrides.idleTimeout = options.idleTimeout;
+  }
+  return Object.keys(overrides).length > 0 ? { ...download, ...overrides } : download;
+}
+
+async function runManifest(manifestPath: string, options: OptionValues) {
+  const manifest = await loadManifest(manifestPath);
+  const defaults: Partial<RuntimeOptions> = { ...manifest.defaults };
+
+  if (options.httpProxy !== undefined) {
+    defaults.httpProxy = options.httpProxy;
+  }
+  if (options.httpsProxy !== undefined) {
+    defaults.httpsProxy = options.httpsProxy;
+  }
+  if (options.noProxy !== undefined) {
+    defaults.noProxy = options.noProxy;
+  }
+  if (options.lockfile !== undefined || options.frozen) {
+    defaults.lockfile =
+      typeof options.lockfile === "string"
+        ? path.resolve(options.lockfile)
+        : manifest.lockfile || getManifestLockfilePath(manifestPath);
+  }
+  if (options.frozen) {
+    defaults.frozen = true;
+  }
+  if (options.cache === false || options.cacheDir !== undefined) {
+    defaults.cacheDir = getCacheDirOption(options);
+  }
+  if (options.mirrorDir !== undefined) {
+    defaults.mirrorDir = options.mirrorDir;
+  }
+  if (options.offline) {
+    defaults.offline = true;
+  }
+  if (options.verify !== undefined) {
+    defaults.verify = options.verify;
+  }
+  defaults.download = withDownloadOptions(defaults.download, options);
+  const logger = createConsoleLogger((options.logLevel ?? "info") as LogLevel);
+  if (process.stderr.isTTY) {
+    // Parallel downloads share the line; each update is labelled with its runtime
+    Object.assign(defaults, createProgressReporter(logger));
+  } else {
+    defaults.logger = logger;
+  }
+
+  if (options.dryRun) {
+    defaults.cleanup = withCleanupDryRun(defaults.cleanup);
+    manifest.runtimes = manifest.runtimes.map((entry) =>
+      entry.cleanup === undefined
+        ? entry
+        : { ...entry, cleanup: withCleanupDryRun(entry.cleanup) }
+    );
+  }
+
+  console.log(`正在根据清单安装 ${manifest.runtimes.length} 个运行时: ${path.resolve(manifestPath)}`);
+  const summary = await injectAll(
+    { ...manifest, defaults },
+    { concurrency: options.concurrency }
+  );
+
+  console.log("");
+  console.log("安装汇总:");
+  for (const result of summary.results) {
+    const target = `${result.platform ?? process.platform}-${result.arch ?? process.arch}`;
+    const status = MANIFEST_STATUS_LABELS[result.status];
+    console.log(
+      `  [${status}] ${result.type} ${result.version ?? "默认版本"} (${target}) -> ${result.targetDir} ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+    if (result.error) {
+      console.log(`      ${describeError(result.error)}`);
+    }
+    if (result.status === "dry-run" && result.cleanup) {
+      printCleanupReport(result.cleanup);
+    }
+  }
+  console.log(
+    `共 ${summary.results.length} 个: ${summary.installed} 个已安装, ${summary.skipped} 个已是最新, ${summary.failed} 个失败`
+  );
+
+  if (options.cleanupReport) {
+    await fs.outputJson(
+      path.resolve(options.cleanupReport),
+      summary.results.map(({ type, version, platform, arch, targetDir, cleanup }) => ({
+        type,
+        version,
+        platform,
+        arch,
+        targetDir,
+        cleanup,
+      })),
+      { spaces: 2 }
+    );
+  }
+
+  if (summary.failed > 0) {
+    // A shared failure keeps its specific exit code; mixed failures exit with 1
+    const exitCodes = new Set(
+      summary.results
+        .filter((result) => result.status === "failed")
+        .map((result) => getExitCode(result.error))
+    );
+    process.exit(exitCodes.size === 1 ? [...exitCodes][0] : 1);
+  }
+}
+
+async function main(options: OptionValues) {
   try {
-    let config = {};
-
-    // Validate runtime type
-    const validTypes: RuntimeType[] = ["node", "bun", "uv", "ripgrep", "python", "rtk"];
-    if (!validTypes.includes(options.type as RuntimeType)) {
-      console.error(
-        `错误: 不支持的运行时类型 "${
-          options.type
-        }". 支持的类型: ${validTypes.join(", ")}`
-      );
-      process.exit(1);
+    if (options.manifest) {
+      await runManifest(options.manifest, options);
+      return;
     }
 
+    // 配置文件中的 runtimeDefinitions 已在 preAction 中注册
+    const { runtimeDefinitions: _runtimeDefinitions, ...config } =
+      (await readConfigFile(options)) ?? {};
+
+    validateRuntimeType(options.type);
+
     // Set default directory based on runtime type
     const defaultDir =
       options.dir === "./runtime" ? `./runtime/${options.type}` : options.dir;
 
-    // 如果指定了配置文件，则读取配置
-    if (options.config) {
-      const configPath = path.resolve(process.cwd(), options.config);
-      if (await fs.pathExists(configPath)) {
-        config = await fs.readJson(configPath);
-      } else {
-        console.error(`配置文件不存在: ${configPath}`);
-        process.exit(1);
-      }
-    }
-
     // Display runtime-specific help
     if (options.type === "node") {
       console.log("正在安装 Node.js 运行时...");
@@ -89,12 +377,18 @@ async function main() {
       console.log("正在安装 Python 运行时...");
       console.log("默认版本: 3.12.8+20250117");
       console.log("将安装 Python 运行时环境，包含 pip");
+      console.log("可使用 --cleanup-profile minimal 移除测试套件、GUI 模块和字节码缓存");
       console.log("平台支持: macOS (x64/ARM64), Linux (x64/ARM64), Windows (x64/ARM64)");
     } else if (options.type === "rtk") {
       console.log("正在安装 rtk 运行时...");
       console.log("默认版本: latest release");
       console.log("支持版本写法: latest, v0.30.0, 0.30.0");
       console.log("平台支持: macOS (x64/ARM64), Linux (x64/ARM64), Windows (x64)");
+    } else if (options.type === "deno") {
+      console.log("正在安装 Deno 运行时...");
+      console.log("默认版本: v2.5.6");
+      console.log("将安装单个 deno 可执行文件");
+      console.log("平台支持: macOS (x64/ARM64), Linux (x64/ARM64), Windows (x64)");
     }
 
     // 合并命令行参数和配置文件
@@ -110,6 +404,7 @@ async function main() {
             removeDocs: options.docs,
             removeDevFiles: options.dev,
             removeSourceMaps: options.sourcemaps,
+            profile: options.cleanupProfile,
             customRules: options.customRules
               ? JSON.parse(options.customRules)
               : undefined,
@@ -126,9 +421,100 @@ async function main() {
     if (options.noProxy !== undefined) {
       runtimeOptions.noProxy = options.noProxy;
     }
+    if (options.expectedSha256 !== undefined) {
+      runtimeOptions.expectedSha256 = options.expectedSha256;
+    }
+    if (options.lockfile !== undefined) {
+      runtimeOptions.lockfile = options.lockfile;
+    }
+    if (options.frozen) {
+      runtimeOptions.frozen = true;
+    }
+    if (options.cache === false || options.cacheDir !== undefined) {
+      runtimeOptions.cacheDir = getCacheDirOption(options);
+    }
+    if (options.archive !== undefined) {
+      runtimeOptions.archivePath = options.archive;
+    }
+    if (options.mirrorDir !== undefined) {
+      runtimeOptions.mirrorDir = options.mirrorDir;
+    }
+    if (options.offline) {
+      runtimeOptions.offline = true;
+    }
+    if (options.verify !== undefined) {
+      runtimeOptions.verify = options.verify;
+    }
+    runtimeOptions.download = withDownloadOptions(runtimeOptions.download, options);
+    const logger = createConsoleLogger((options.logLevel ?? "info") as LogLevel);
+    if (process.stderr.isTTY) {
+      Object.assign(runtimeOptions, createProgressReporter(logger));
+    } else {
+      runtimeOptions.logger = logger;
+    }
+    if (options.mirror !== undefined) {
+      runtimeOptions.mirror = options.mirror;
+    }
+    if (options.npmPackages) {
+      runtimeOptions.npmPackages = {
+        ...runtimeOptions.npmPackages,
+        packages: options.npmPackages
+          .split(",")
+          .map((name: string) => name.trim())
+          .filter(Boolean),
+      };
+      if (options.npmTarballDir !== undefined) {
+        runtimeOptions.npmPackages.tarballDir = options.npmTarballDir;
+      }
+      if (options.npmRegistry !== undefined) {
+        runtimeOptions.npmPackages.registry = options.npmRegistry;
+      }
+    }
+    if (options.pythonPackages || options.requirements || options.pyproject) {
+      const pythonPackages = { ...runtimeOptions.pythonPackages };
+      if (options.pythonPackages) {
+        pythonPackages.packages = options.pythonPackages
+          .split(",")
+          .map((name: string) => name.trim())
+          .filter(Boolean);
+      }
+      if (options.requirements !== undefined) {
+        pythonPackages.requirements = options.requirements;
+      }
+      if (options.pyproject !== undefined) {
+        pythonPackages.pyproject = options.pyproject;
+      }
+      if (options.venv === false) {
+        pythonPackages.venv = false;
+      }
+      if (options.uv !== undefined) {
+        pythonPackages.uvPath = options.uv;
+      }
+      if (options.findLinks !== undefined) {
+        pythonPackages.findLinks = options.findLinks;
+      }
+      runtimeOptions.pythonPackages = pythonPackages;
+    }
+
+    if (options.dryRun) {
+      if (!runtimeOptions.cleanup) {
+        console.error("错误: --dry-run 需要启用清理，不能与 --no-cleanup 同时使用");
+        process.exit(1);
+      }
+      runtimeOptions.cleanup = withCleanupDryRun(runtimeOptions.cleanup);
+    }
 
     const injector = new RuntimeInjector(runtimeOptions);
-    await injector.inject();
+    const result = await injector.inject();
+    if (options.cleanupReport && result.cleanup) {
+      await fs.outputJson(path.resolve(options.cleanupReport), result.cleanup, {
+        spaces: 2,
+      });
+    }
+    if (result.status === "dry-run") {
+      printCleanupReport(result.cleanup!);
+      return;
+    }
     console.log("安装完成！");
 
     // Display post-installation info
@@ -173,6 +559,12 @@ async function main() {
           process.platform === "win32" ? "python.exe" : "bin/python3"
         )}`
       );
+      const venv = runtimeOptions.pythonPackages?.venv ?? true;
+      if (runtimeOptions.pythonPackages && venv !== false) {
+        console.log(
+          `虚拟环境位置: ${path.join(defaultDir, typeof venv === "string" ? venv : "venv")}`
+        );
+      }
     } else if (options.type === "rtk") {
       console.log(
         `rtk 可执行文件位置: ${path.join(
@@ -180,10 +572,18 @@ async function main() {
           process.platform === "win32" ? "rtk.exe" : "rtk"
         )}`
       );
+    } else if (options.type === "deno") {
+      console.log(
+        `Deno 可执行文件位置: ${path.join(
+          defaultDir,
+          process.platform === "win32" ? "deno.exe" : "deno"
+        )}`
+      );
+    } else {
+      console.log(`${options.type} 可执行文件位置: ${result.executablePath}`);
     }
   } catch (error) {
-    console.error("安装失败:", error);
-    process.exit(1);
+    exitWithError("安装失败", error);
   }
 }
 
@@ -194,6 +594,12 @@ program.on("--help", () => {
   console.log(
     "  $ tiny-runtime-injector --type node --runtime-version v24.12.0 --dir ./runtime/node"
   );
+  console.log(
+    "  $ tiny-runtime-injector --type node --runtime-version lts --dir ./runtime/node"
+  );
+  console.log(
+    "  $ tiny-runtime-injector --type node --npm-packages pnpm,typescript --dir ./runtime/node"
+  );
   console.log(
     "  $ tiny-runtime-injector --type bun --runtime-version v1.3.5 --dir ./runtime/bun"
   );
@@ -206,12 +612,24 @@ program.on("--help", () => {
   console.log(
     "  $ tiny-runtime-injector --type python --runtime-version 3.12.8+20250117 --dir ./runtime/python"
   );
+  console.log(
+    "  $ tiny-runtime-injector --type python --requirements ./requirements.txt --dir ./runtime/python"
+  );
   console.log(
     "  $ tiny-runtime-injector --type rtk --dir ./runtime/rtk"
   );
   console.log(
     "  $ tiny-runtime-injector --type rtk --runtime-version v0.30.0 --dir ./runtime/rtk"
   );
+  console.log(
+    "  $ tiny-runtime-injector --type deno --runtime-version v2.5.6 --dir ./runtime/deno"
+  );
+  console.log(
+    "  $ tiny-runtime-injector --manifest ./runtimes.json --concurrency 2"
+  );
+  console.log("  $ tiny-runtime-injector list-versions --type node --runtime-version lts");
+  console.log("  $ tiny-runtime-injector cache list");
+  console.log("  $ tiny-runtime-injector cache prune --max-age 14");
   console.log("");
   console.log("支持的运行时:");
   console.log("  node     - Node.js JavaScript运行时");
@@ -220,8 +638,251 @@ program.on("--help", () => {
   console.log("  ripgrep  - 快速的文本搜索工具");
   console.log("  python   - Python 运行时环境");
   console.log("  rtk      - rtk command line tool");
+  console.log("  deno     - Deno JavaScript/TypeScript 运行时");
   console.log("");
 });
 
-// 直接执行主函数
-main();
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(unitIndex === 0 ? 0 : 1)} ${units[unitIndex]}`;
+}
+
+const PROGRESS_BAR_WIDTH = 24;
+
+function formatDownloadProgress(event: Extract<InjectEvent, { phase: "download" }>): string {
+  const label = `  ${event.type} ${event.platform}-${event.arch}`;
+  const speed = `${formatBytes(event.bytesPerSecond)}/s`;
+  if (!event.total) {
+    return `${label} ${formatBytes(event.bytes)} ${speed}`;
+  }
+
+  const ratio = Math.min(event.bytes / event.total, 1);
+  const filled = Math.round(ratio * PROGRESS_BAR_WIDTH);
+  const bar = `${"#".repeat(filled)}${"-".repeat(PROGRESS_BAR_WIDTH - filled)}`;
+  return `${label} [${bar}] ${Math.floor(ratio * 100)}% ${formatBytes(event.bytes)}/${formatBytes(event.total)} ${speed}`;
+}
+
+/**
+ * Draws download progress on one terminal line. Log messages first finish
+ * that line so they never end up appended to the bar.
+ */
+function createProgressReporter(logger: Logger): {
+  logger: Logger;
+  onEvent: (event: InjectEvent) => void;
+} {
+  let drawing = false;
+  const endLine = () => {
+    if (drawing) {
+      process.stderr.write("\n");
+      drawing = false;
+    }
+  };
+
+  const relay =
+    (level: keyof Logger) =>
+    (message: string, ...details: unknown[]) => {
+      endLine();
+      logger[level](message, ...details);
+    };
+
+  return {
+    logger: {
+      debug: relay("debug"),
+      info: relay("info"),
+      warn: relay("warn"),
+      error: relay("error"),
+    },
+    onEvent: (event) => {
+      if (event.phase !== "download" || event.source !== "network") {
+        endLine();
+        return;
+      }
+      process.stderr.write(`\r${formatDownloadProgress(event)}\x1b[K`);
+      drawing = true;
+    },
+  };
+}
+
+function getCommandCache(command: { optsWithGlobals(): OptionValues }): DownloadCache {
+  const cacheDir = resolveCacheDir(command.optsWithGlobals().cacheDir);
+  if (!cacheDir) {
+    console.error("下载缓存已被禁用 (TINY_RUNTIME_INJECTOR_CACHE_DIR)");
+    process.exit(1);
+  }
+  return new DownloadCache(cacheDir);
+}
+
+const cacheCommand = program
+  .command("cache")
+  .description("管理下载缓存");
+
+cacheCommand
+  .command("list")
+  .description("列出缓存的压缩包")
+  .action(async (_options: OptionValues, command) => {
+    const cache = getCommandCache(command);
+
+    try {
+      const entries = await cache.list();
+      console.log(`缓存目录: ${cache.dir}`);
+      if (entries.length === 0) {
+        console.log("缓存为空");
+        return;
+      }
+
+      let totalSize = 0;
+      for (const entry of entries) {
+        totalSize += entry.size;
+        console.log(
+          `  ${entry.fileName}  ${formatBytes(entry.size)}  sha256:${entry.sha256.slice(0, 12)}  最近使用: ${entry.lastUsedAt}`
+        );
+        console.log(`    ${entry.url}`);
+      }
+      console.log(`共 ${entries.length} 个文件, ${formatBytes(totalSize)}`);
+    } catch (error) {
+      exitWithError("读取缓存失败", error);
+    }
+  });
+
+cacheCommand
+  .command("prune")
+  .description("删除长时间未使用的缓存")
+  .option("--max-age <days>", "保留最近多少天内使用过的缓存", parseFloat, 30)
+  .action(async (pruneOptions: OptionValues, command) => {
+    const cache = getCommandCache(command);
+
+    try {
+      const removed = await cache.prune({ maxAgeDays: pruneOptions.maxAge });
+      for (const entry of removed) {
+        console.log(`  已删除: ${entry.fileName} (${formatBytes(entry.size)})`);
+      }
+      console.log(`已清理 ${removed.length} 个缓存文件: ${cache.dir}`);
+    } catch (error) {
+      exitWithError("清理缓存失败", error);
+    }
+  });
+
+cacheCommand
+  .command("clean")
+  .description("清空下载缓存")
+  .action(async (_options: OptionValues, command) => {
+    const cache = getCommandCache(command);
+
+    try {
+      await cache.clean();
+      console.log(`已清空缓存目录: ${cache.dir}`);
+    } catch (error) {
+      exitWithError("清空缓存失败", error);
+    }
+  });
+
+program
+  .command("list-versions")
+  .description("列出运行时的可用版本及各平台/架构的安装包 (可用 --type 和 --runtime-version 过滤)")
+  .option("--limit <n>", "最多显示多少个版本", (value) => parseInt(value, 10), 20)
+  .option("--json", "以 JSON 格式输出")
+  .action(async (listOptions: OptionValues, command) => {
+    const options = command.optsWithGlobals();
+    validateRuntimeType(options.type);
+
+    try {
+      const versions = await listVersions({
+        type: options.type as RuntimeType,
+        range: options.runtimeVersion,
+        limit: listOptions.limit,
+        httpProxy: options.httpProxy,
+        httpsProxy: options.httpsProxy,
+        noProxy: options.noProxy,
+        mirror: options.mirror,
+        offline: options.offline,
+      });
+
+      if (listOptions.json) {
+        console.log(JSON.stringify(versions, null, 2));
+        return;
+      }
+
+      if (versions.length === 0) {
+        console.log(`没有找到匹配的 ${options.type} 版本`);
+        return;
+      }
+
+      for (const version of versions) {
+        const labels = [
+          version.date,
+          version.lts ? `LTS ${version.lts}` : undefined,
+          version.prerelease ? "预发布" : undefined,
+        ].filter(Boolean);
+        console.log(`${version.version}${labels.length > 0 ? `  (${labels.join(", ")})` : ""}`);
+
+        const formatTargets = (available: boolean) =>
+          version.targets
+            .filter((target) => target.available === available)
+            .map((target) => `${target.platform}-${target.arch}`)
+            .join(", ");
+        console.log(`  可用: ${formatTargets(true) || "无"}`);
+        const missing = formatTargets(false);
+        if (missing) {
+          console.log(`  缺少: ${missing}`);
+        }
+      }
+    } catch (error) {
+      exitWithError("获取版本列表失败", error);
+    }
+  });
+
+program
+  .command("verify")
+  .description("按安装记录校验已安装的运行时，报告缺失、被修改和多余的文件 (使用 --type、--dir、--platform 和 --arch)")
+  .option("--json", "以 JSON 格式输出")
+  .action(async (verifyOptions: OptionValues, command) => {
+    const options = command.optsWithGlobals();
+    validateRuntimeType(options.type);
+
+    try {
+      const result = await verifyInstall({
+        type: options.type as RuntimeType,
+        targetDir: options.dir === "./runtime" ? `./runtime/${options.type}` : options.dir,
+        platform: options.platform,
+        arch: options.arch,
+      });
+
+      if (verifyOptions.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        const { marker } = result;
+        console.log(
+          `${marker.type ?? options.type} ${marker.version} (${marker.platform}-${marker.arch}) 安装于 ${marker.installedAt ?? "未知时间"}: ${result.targetDir}`
+        );
+        const groups = [
+          ["缺失", result.missing],
+          ["已修改", result.modified],
+          ["多余", result.extra],
+        ] as const;
+        for (const [label, files] of groups) {
+          for (const file of files) {
+            console.log(`  [${label}] ${file}`);
+          }
+        }
+        console.log(
+          result.ok
+            ? `校验通过: ${Object.keys(marker.files!).length} 个文件均与安装记录一致`
+            : `校验失败: ${result.missing.length} 个缺失, ${result.modified.length} 个已修改, ${result.extra.length} 个多余`
+        );
+      }
+
+      if (!result.ok) {
+        process.exit(1);
+      }
+    } catch (error) {
+      exitWithError("校验失败", error);
+    }
+  });
+
+program.parseAsync().catch((error) => exitWithError("执行失败", error));
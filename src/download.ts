@@ -0,0 +1,297 @@
+import fs from "fs-extra";
+import { createWriteStream } from "fs";
+import { pipeline } from "node:stream/promises";
+import { Readable, Transform } from "stream";
+import axios, { AxiosProxyConfig, AxiosResponse } from "axios";
+import { ConfigError, DiskError, DownloadError, HttpStatusError, NetworkError } from "./errors.js";
+import { DownloadOptions, Logger } from "./types.js";
+
+export const DEFAULT_DOWNLOAD_OPTIONS: Required<DownloadOptions> = {
+  retries: 3,
+  retryDelay: 1000,
+  connectTimeout: 30_000,
+  idleTimeout: 60_000,
+};
+
+// How often download progress is reported while bytes arrive
+const PROGRESS_INTERVAL_MS = 100;
+
+export interface DownloadProgress {
+  /** Bytes on disk so far, including any resumed part */
+  bytes: number;
+  total?: number;
+  bytesPerSecond: number;
+}
+
+export interface DownloadRequest {
+  url: string;
+  destination: string;
+  /**
+   * Where bytes are written until the download completes. A file left there
+   * by an earlier attempt is resumed with a Range request.
+   */
+  partialPath: string;
+  proxy?: AxiosProxyConfig;
+  options: Required<DownloadOptions>;
+  logger: Logger;
+  onProgress: (progress: DownloadProgress) => void;
+}
+
+// Stored next to the partial file so a resume only happens against the same upstream file
+interface PartialMetadata {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/** Checks that every download setting is a non-negative number */
+export function validateDownloadOptions(options: DownloadOptions): void {
+  for (const [key, value] of Object.entries(options)) {
+    if (!(key in DEFAULT_DOWNLOAD_OPTIONS)) {
+      throw new ConfigError(
+        `Unknown download option "${key}". Expected one of: ${Object.keys(DEFAULT_DOWNLOAD_OPTIONS).join(", ")}`
+      );
+    }
+    if (value !== undefined && (typeof value !== "number" || !(value >= 0))) {
+      throw new ConfigError(`download.${key} must be a non-negative number, got ${value}`);
+    }
+  }
+}
+
+function getMetadataPath(partialPath: string): string {
+  return `${partialPath}.json`;
+}
+
+async function onDisk<T>(
+  request: DownloadRequest,
+  filePath: string,
+  action: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    throw new DiskError(
+      `Failed to ${action} ${filePath}: ${(error as Error).message}`,
+      request.url,
+      filePath,
+      error
+    );
+  }
+}
+
+async function removePartial(request: DownloadRequest): Promise<void> {
+  await onDisk(request, request.partialPath, "remove", async () => {
+    await fs.remove(request.partialPath);
+    await fs.remove(getMetadataPath(request.partialPath));
+  });
+}
+
+/** Returns the size of a resumable partial file and how to validate it, or 0 to start over */
+async function getPartialState(
+  request: DownloadRequest
+): Promise<{ offset: number; validator?: string }> {
+  const stats = await fs.stat(request.partialPath).catch(() => undefined);
+  const metadata = (await fs
+    .readJson(getMetadataPath(request.partialPath))
+    .catch(() => undefined)) as PartialMetadata | undefined;
+  if (!stats?.isFile() || stats.size === 0 || metadata?.url !== request.url) {
+    await removePartial(request);
+    return { offset: 0 };
+  }
+  return { offset: stats.size, validator: metadata.etag ?? metadata.lastModified };
+}
+
+function getHeader(response: AxiosResponse, name: string): string | undefined {
+  const value = response.headers[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+function describeError(error: unknown): string {
+  return axios.isAxiosError(error) && error.code
+    ? `${error.code} ${error.message}`
+    : (error as Error).message;
+}
+
+async function requestFile(
+  request: DownloadRequest,
+  headers: Record<string, string>
+): Promise<AxiosResponse> {
+  const { url, options } = request;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.connectTimeout);
+  try {
+    return await axios({
+      method: "GET",
+      url,
+      headers,
+      responseType: "stream",
+      proxy: request.proxy ?? false,
+      signal: controller.signal,
+      validateStatus: () => true,
+    });
+  } catch (error) {
+    const reason = controller.signal.aborted
+      ? `no response within ${options.connectTimeout} ms`
+      : describeError(error);
+    throw new NetworkError(`Failed to connect to ${url}: ${reason}`, url, error);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function attemptDownload(request: DownloadRequest): Promise<void> {
+  const { url, partialPath, options, logger } = request;
+  const { offset: resumeFrom, validator } = await getPartialState(request);
+
+  const headers: Record<string, string> = {};
+  if (resumeFrom > 0) {
+    headers.Range = `bytes=${resumeFrom}-`;
+    if (validator) {
+      headers["If-Range"] = validator;
+    }
+  }
+  const response = await requestFile(request, headers);
+  const body = response.data as Readable;
+
+  let offset = 0;
+  if (response.status === 206 && resumeFrom > 0) {
+    const start = /^bytes (\d+)-/.exec(getHeader(response, "content-range") ?? "")?.[1];
+    if (Number(start) !== resumeFrom) {
+      body.destroy();
+      await removePartial(request);
+      throw new NetworkError(`Unexpected Content-Range from ${url}, restarting download`, url);
+    }
+    offset = resumeFrom;
+    logger.info(`Resuming download at ${resumeFrom} bytes`);
+  } else if (response.status === 416 && resumeFrom > 0) {
+    // The partial file does not fit the current upstream file any more
+    body.destroy();
+    await removePartial(request);
+    return attemptDownload(request);
+  } else if (response.status === 200 && resumeFrom > 0) {
+    logger.debug(`${url} does not support resuming, downloading from the start`);
+  }
+  if (response.status !== 200 && offset === 0) {
+    body.destroy();
+    throw new HttpStatusError(response.status, response.statusText, url);
+  }
+
+  if (offset === 0) {
+    const metadata: PartialMetadata = {
+      url,
+      etag: getHeader(response, "etag"),
+      lastModified: getHeader(response, "last-modified"),
+    };
+    await onDisk(request, partialPath, "write", () =>
+      fs.outputJson(getMetadataPath(partialPath), metadata)
+    );
+  }
+
+  const length = Number(getHeader(response, "content-length"));
+  const total = Number.isFinite(length) && length > 0 ? offset + length : undefined;
+  const startedAt = Date.now();
+  let bytes = offset;
+  let reportedAt = startedAt;
+  const report = () => {
+    const seconds = (Date.now() - startedAt) / 1000;
+    request.onProgress({
+      bytes,
+      total,
+      bytesPerSecond: seconds > 0 ? Math.round((bytes - offset) / seconds) : 0,
+    });
+  };
+
+  const idleTimer = setTimeout(() => {
+    body.destroy(
+      new NetworkError(`No data received from ${url} for ${options.idleTimeout} ms`, url)
+    );
+  }, options.idleTimeout);
+  const progress = new Transform({
+    transform: (chunk: Buffer, _encoding, callback) => {
+      idleTimer.refresh();
+      bytes += chunk.length;
+      if (Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+        reportedAt = Date.now();
+        report();
+      }
+      callback(null, chunk);
+    },
+  });
+
+  let writeError: unknown;
+  const writer = createWriteStream(partialPath, { flags: offset > 0 ? "a" : "w" });
+  writer.once("error", (error) => {
+    writeError = error;
+  });
+
+  report();
+  try {
+    await pipeline(body, progress, writer);
+  } catch (error) {
+    if (error instanceof DownloadError) {
+      throw error;
+    }
+    if (writeError) {
+      throw new DiskError(
+        `Failed to write ${partialPath}: ${(error as Error).message}`,
+        url,
+        partialPath,
+        error
+      );
+    }
+    throw new NetworkError(
+      `Connection to ${url} lost after ${bytes} bytes: ${describeError(error)}`,
+      url,
+      error
+    );
+  } finally {
+    clearTimeout(idleTimer);
+  }
+
+  if (total !== undefined && bytes !== total) {
+    throw new NetworkError(
+      `Download of ${url} ended after ${bytes} of ${total} bytes`,
+      url
+    );
+  }
+  report();
+
+  await onDisk(request, request.destination, "write", async () => {
+    await fs.move(partialPath, request.destination, { overwrite: true });
+    await fs.remove(getMetadataPath(partialPath));
+  });
+}
+
+/**
+ * Downloads `request.url` to `request.destination`. Network errors and
+ * 408, 429 and 5xx responses are retried with exponential backoff, resuming
+ * from the bytes already on disk when the server supports Range requests.
+ * Throws a NetworkError, HttpStatusError or DiskError.
+ */
+export async function downloadWithRetries(request: DownloadRequest): Promise<void> {
+  const { retries, retryDelay } = request.options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await attemptDownload(request);
+      return;
+    } catch (error) {
+      if (!(error instanceof DownloadError)) {
+        throw error;
+      }
+      if (!error.retryable || attempt > retries) {
+        error.attempts = attempt;
+        if (attempt > 1) {
+          error.message += ` (gave up after ${attempt} attempts)`;
+        }
+        throw error;
+      }
+
+      const delay = retryDelay * 2 ** (attempt - 1);
+      request.logger.warn(
+        `${error.message}. Retrying in ${delay} ms (attempt ${attempt + 1} of ${retries + 1})`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
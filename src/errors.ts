@@ -0,0 +1,201 @@
+/** Stable identifiers for the failures callers may want to handle */
+export type ErrorCode =
+  | "UNSUPPORTED_PLATFORM"
+  | "VERSION_NOT_FOUND"
+  | "DOWNLOAD_FAILED"
+  | "CHECKSUM_MISMATCH"
+  | "EXTRACTION_FAILED"
+  | "GITHUB_AUTH"
+  | "GITHUB_RATE_LIMIT"
+  | "LOCKFILE"
+  | "OFFLINE"
+  | "ARCHIVE_NOT_FOUND"
+  | "INVALID_CONFIG"
+  | "VERIFY_FAILED"
+  | "COMMAND_FAILED";
+
+/** Base class for errors that carry a stable `code` */
+export class RuntimeInjectorError extends Error {
+  readonly code: ErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: ErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/** The runtime publishes no build for the requested platform and arch */
+export class UnsupportedPlatformError extends RuntimeInjectorError {
+  readonly platform: string;
+  readonly arch: string;
+
+  constructor(message: string, platform: string, arch: string) {
+    super("UNSUPPORTED_PLATFORM", message);
+    this.platform = platform;
+    this.arch = arch;
+  }
+}
+
+/** No published release matches the requested alias or range */
+export class VersionNotFoundError extends RuntimeInjectorError {
+  readonly runtimeType: string;
+  readonly requestedVersion: string;
+
+  constructor(message: string, runtimeType: string, requestedVersion: string) {
+    super("VERSION_NOT_FOUND", message);
+    this.runtimeType = runtimeType;
+    this.requestedVersion = requestedVersion;
+  }
+}
+
+/** Base class for failures while downloading an archive, checksum or release list */
+export class DownloadError extends RuntimeInjectorError {
+  readonly url: string;
+  /** Attempts made before giving up, including the first one */
+  attempts = 1;
+
+  constructor(message: string, url: string, cause?: unknown) {
+    super("DOWNLOAD_FAILED", message, cause);
+    this.url = url;
+  }
+
+  /** Whether another attempt may succeed */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/** The connection failed, timed out or was dropped before the file was complete */
+export class NetworkError extends DownloadError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** The server answered with a status other than 200 or 206 */
+export class HttpStatusError extends DownloadError {
+  readonly status: number;
+
+  constructor(status: number, statusText: string, url: string) {
+    super(`HTTP ${status}${statusText ? ` ${statusText}` : ""} for ${url}`, url);
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+/** Reading or writing the downloaded or local archive failed, e.g. because the disk is full */
+export class DiskError extends DownloadError {
+  readonly path: string;
+
+  constructor(message: string, url: string, filePath: string, cause?: unknown) {
+    super(message, url, cause);
+    this.path = filePath;
+  }
+}
+
+/** The local archive passed as `archivePath` does not exist */
+export class ArchiveNotFoundError extends RuntimeInjectorError {
+  readonly path: string;
+
+  constructor(message: string, filePath: string) {
+    super("ARCHIVE_NOT_FOUND", message);
+    this.path = filePath;
+  }
+}
+
+/** The downloaded archive does not match its published or pinned SHA-256 */
+export class ChecksumMismatchError extends RuntimeInjectorError {
+  readonly expected: string;
+  readonly actual: string;
+
+  constructor(message: string, expected: string, actual: string) {
+    super("CHECKSUM_MISMATCH", message);
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/** The archive could not be unpacked or lacks the files the runtime needs */
+export class ExtractionError extends RuntimeInjectorError {
+  readonly archive: string;
+
+  constructor(message: string, archive: string, cause?: unknown) {
+    super("EXTRACTION_FAILED", message, cause);
+    this.archive = archive;
+  }
+}
+
+/** GitHub rejected the token, or the token may not read the releases */
+export class GitHubAuthError extends RuntimeInjectorError {
+  readonly status: number;
+
+  constructor(message: string, status: number, cause?: unknown) {
+    super("GITHUB_AUTH", message, cause);
+    this.status = status;
+  }
+}
+
+/** The GitHub API rate limit is used up; `resetAt` is when it refills, if GitHub said */
+export class GitHubRateLimitError extends RuntimeInjectorError {
+  readonly resetAt?: Date;
+
+  constructor(message: string, resetAt?: Date, cause?: unknown) {
+    super("GITHUB_RATE_LIMIT", message, cause);
+    this.resetAt = resetAt;
+  }
+}
+
+/** The lockfile cannot be read, or a frozen install deviates from it */
+export class LockfileError extends RuntimeInjectorError {
+  readonly lockfilePath: string;
+
+  constructor(message: string, lockfilePath: string) {
+    super("LOCKFILE", message);
+    this.lockfilePath = lockfilePath;
+  }
+}
+
+/** Offline mode is on, but `action` needs the network */
+export class OfflineError extends RuntimeInjectorError {
+  readonly action: string;
+
+  constructor(message: string, action: string) {
+    super("OFFLINE", message);
+    this.action = action;
+  }
+}
+
+/** An option, runtime definition or manifest is invalid or asks for something the runtime cannot do */
+export class ConfigError extends RuntimeInjectorError {
+  constructor(message: string, cause?: unknown) {
+    super("INVALID_CONFIG", message, cause);
+  }
+}
+
+/** No installed runtime was found in `targetDir`, or its install record cannot be checked */
+export class VerifyError extends RuntimeInjectorError {
+  readonly targetDir: string;
+
+  constructor(message: string, targetDir: string) {
+    super("VERIFY_FAILED", message);
+    this.targetDir = targetDir;
+  }
+}
+
+/** A command run after the install, such as pip, uv or npm, failed or could not be started */
+export class CommandError extends RuntimeInjectorError {
+  readonly command: string;
+  readonly args: string[];
+
+  constructor(message: string, command: string, args: string[], cause?: unknown) {
+    super("COMMAND_FAILED", message, cause);
+    this.command = command;
+    this.args = args;
+  }
+}
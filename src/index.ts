@@ -4,18 +4,114 @@ import os from "os";
 import { promisify } from "util";
 import { exec } from "child_process";
 import axios from "axios";
-import { createWriteStream } from "fs";
-import { pipeline } from "node:stream/promises";
 import * as tar from "tar";
 import {
   RuntimeOptions,
   RuntimeInfo,
-  CleanupConfig,
-  CleanupRule,
-  RuntimeType,
+  BuiltinRuntimeType,
+  CleanupReport,
+  DownloadSource,
   RuntimeConfig,
+  InjectEventDetails,
+  InjectResult,
+  InstallMarker,
+  InstallVerification,
+  LockfileEntry,
+  ListVersionsOptions,
+  Logger,
+  NpmPackagesRecord,
+  PythonPackagesRecord,
+  ReleaseSource,
+  RuntimeRelease,
+  RunOptions,
+  RunResult,
+  RuntimeTarget,
+  RuntimeVersionInfo,
 } from "./types.js";
-import { glob } from "glob";
+import {
+  computeFileSha256,
+  findChecksum,
+  getAssetNameFromUrl,
+  normalizeSha256,
+  resolveChecksumUrl,
+} from "./checksum.js";
+import {
+  getLockEntryKey,
+  readLockfile,
+  resolveLockfilePath,
+  updateLockfile,
+} from "./lockfile.js";
+import { DownloadCache, PartialDownload, resolveCacheDir } from "./cache.js";
+import {
+  ArchiveNotFoundError,
+  ChecksumMismatchError,
+  ConfigError,
+  DownloadError,
+  ExtractionError,
+  GitHubAuthError,
+  GitHubRateLimitError,
+  LockfileError,
+  OfflineError,
+  RuntimeInjectorError,
+  UnsupportedPlatformError,
+  VerifyError,
+  VersionNotFoundError,
+} from "./errors.js";
+import {
+  DEFAULT_DOWNLOAD_OPTIONS,
+  downloadWithRetries,
+  validateDownloadOptions,
+} from "./download.js";
+import {
+  getInstallMarkerPath,
+  readInstallMarker,
+  writeInstallMarker,
+} from "./marker.js";
+import {
+  describePythonPackages,
+  getPythonCommand,
+  getPythonEnv,
+  getRelocatablePythonPaths,
+  installPythonPackages,
+  isSamePythonPackages,
+  relocatePythonPaths,
+} from "./python.js";
+import {
+  describeNpmPackages,
+  getNodeCommand,
+  getNodeEnv,
+  installNpmPackages,
+  isSameNpmPackages,
+} from "./npm.js";
+import { UNIVERSAL_ARCHS, mergeUniversalDirs } from "./macho.js";
+import { extractZipFile } from "./zip.js";
+import { consoleLogger } from "./logger.js";
+import { checkBinaryTarget, compareInstalledFiles, getInstalledFiles } from "./verify.js";
+import { runWith } from "./run.js";
+import {
+  applyCleanupRules,
+  getCleanupProfilePatterns,
+  getCleanupRules,
+} from "./cleanup.js";
+import {
+  applyMirror,
+  getMirrorEnvKeys,
+  getUpstreamDownloadUrl,
+  isMirrorTemplate,
+  rebaseOnMirror,
+} from "./mirror.js";
+import {
+  getPlatformTableTargets,
+  getRuntimeConfig,
+  registerBuiltinRuntimes,
+} from "./registry.js";
+import {
+  fetchReleases,
+  filterReleases,
+  isExactSemver,
+  isValidVersionSpec,
+  selectRelease,
+} from "./versions.js";
 
 const execAsync = promisify(exec);
 
@@ -37,9 +133,82 @@ const RTK_PLATFORM: Record<string, { target: string; ext: "tar.gz" | "zip" }> =
   "arm64-darwin": { target: "aarch64-apple-darwin", ext: "tar.gz" },
 };
 
+// Deno only publishes zip archives
+const DENO_PLATFORM: Record<string, { target: string; ext: "zip" }> = {
+  "x64-win32": { target: "x86_64-pc-windows-msvc", ext: "zip" },
+  "x64-linux": { target: "x86_64-unknown-linux-gnu", ext: "zip" },
+  "arm64-linux": { target: "aarch64-unknown-linux-gnu", ext: "zip" },
+  "x64-darwin": { target: "x86_64-apple-darwin", ext: "zip" },
+  "arm64-darwin": { target: "aarch64-apple-darwin", ext: "zip" },
+};
+
 const RTK_SUPPORTED_PLATFORMS =
   "darwin-x64, darwin-arm64, linux-x64, linux-arm64, win32-x64";
 
+function getTargets(archsByPlatform: Record<string, string[]>): RuntimeTarget[] {
+  return Object.entries(archsByPlatform).flatMap(([platform, archs]) =>
+    archs.map((arch) => ({ platform, arch }))
+  );
+}
+
+const PYTHON_EXACT_VERSION_PATTERN = /^\d+\.\d+\.\d+\+\d{8}$/;
+
+// Cleanup profiles match both layouts: lib/python3.x on Unix, Lib on Windows
+const PYTHON_TEST_SUITE_PATTERNS = [
+  "lib/python3.*/test/**",
+  "lib/python3.*/**/idle_test/**",
+  "Lib/test/**",
+  "Lib/**/idle_test/**",
+];
+
+const PYTHON_CLEANUP_PROFILES = {
+  default: PYTHON_TEST_SUITE_PATTERNS,
+  minimal: [
+    ...PYTHON_TEST_SUITE_PATTERNS,
+    // GUI modules and the Tcl/Tk libraries behind them
+    "lib/python3.*/idlelib/**",
+    "lib/python3.*/tkinter/**",
+    "lib/python3.*/turtledemo/**",
+    "lib/python3.*/lib-dynload/_tkinter*",
+    "lib/tcl*/**",
+    "lib/tk*/**",
+    "lib/itcl*/**",
+    "lib/thread*/**",
+    "Lib/idlelib/**",
+    "Lib/tkinter/**",
+    "Lib/turtledemo/**",
+    "DLLs/_tkinter.pyd",
+    "DLLs/tcl*.dll",
+    "DLLs/tk*.dll",
+    "tcl/**",
+    // pip's bootstrap wheels
+    "lib/python3.*/ensurepip/_bundled/**",
+    "Lib/ensurepip/_bundled/**",
+    // Bytecode caches, headers and the libraries for embedding
+    "**/__pycache__/**",
+    "**/*.pyc",
+    "include/**",
+    "lib/python3.*/config-*/**",
+    "libs/**",
+  ],
+};
+
+const NODE_CLEANUP_PROFILES = {
+  // Drops the bundled package managers for apps that only run node itself
+  minimal: [
+    "lib/node_modules/npm/**",
+    "lib/node_modules/corepack/**",
+    "bin/npm",
+    "bin/npx",
+    "bin/corepack",
+    "node_modules/npm/**",
+    "node_modules/corepack/**",
+    "npm{,.cmd,.ps1}",
+    "npx{,.cmd,.ps1}",
+    "corepack{,.cmd}",
+  ],
+};
+
 // Default versions for each runtime
 const DEFAULT_VERSIONS = {
   node: "v24.12.0",
@@ -48,22 +217,46 @@ const DEFAULT_VERSIONS = {
   ripgrep: "14.1.1",
   python: "3.12.12+20251217",
   rtk: "latest",
+  deno: "v2.5.6",
 };
 
 // Runtime configurations
-const RUNTIME_CONFIGS: Record<RuntimeType, RuntimeConfig> = {
+const RUNTIME_CONFIGS: Record<BuiltinRuntimeType, RuntimeConfig> = {
   node: {
     defaultVersion: DEFAULT_VERSIONS.node,
-    getDownloadUrl: (version: string, platform: string, arch: string) => {
+    checksum: { kind: "manifest", fileName: "SHASUMS256.txt" },
+    releaseSource: {
+      kind: "node-dist",
+      indexUrl: "https://nodejs.org/dist/index.json",
+    },
+    normalizeVersion: addVersionPrefix,
+    targets: getTargets({
+      darwin: ["x64", "arm64"],
+      linux: ["x64", "arm64", "arm", "ppc64", "s390x"],
+      win32: ["x64", "arm64", "ia32"],
+    }),
+    downloadUrlTemplate: "https://nodejs.org/dist/{tag}/{fileName}",
+    mirrorEnvKeys: ["NODEJS_ORG_MIRROR", "NVM_NODEJS_ORG_MIRROR"],
+    getAssetName: (version: string, platform: string, arch: string) => {
       const platformId = getNodePlatformIdentifier(platform, arch);
       const fileExtension = platform === "win32" ? "zip" : "tar.gz";
-      const fileName = `node-${version}-${platformId}.${fileExtension}`;
-      return `https://nodejs.org/dist/${version}/${fileName}`;
+      return `node-${version}-${platformId}.${fileExtension}`;
     },
     getFileExtension: (platform: string, arch: string) =>
       platform === "win32" ? "zip" : "tar.gz",
     getExecutablePath: (targetDir: string, platform: string) =>
       path.join(targetDir, platform === "win32" ? "node.exe" : "bin/node"),
+    getEnv: (targetDir: string, platform: string) => getNodeEnv(targetDir, platform),
+    getCommand: (targetDir: string, platform: string, name: string | undefined) =>
+      getNodeCommand(
+        targetDir,
+        RUNTIME_CONFIGS.node.getExecutablePath(targetDir, platform),
+        platform,
+        name
+      ),
+    versionArgs: ["-v"],
+    matchesVersion: (output: string, version: string) => output === version,
+    cleanupProfiles: NODE_CLEANUP_PROFILES,
     extractFiles: async (
       extractedDir: string,
       targetDir: string,
@@ -85,14 +278,27 @@ const RUNTIME_CONFIGS: Record<RuntimeType, RuntimeConfig> = {
   },
   bun: {
     defaultVersion: DEFAULT_VERSIONS.bun,
-    getDownloadUrl: (version: string, platform: string, arch: string) => {
-      const platformId = getBunPlatformIdentifier(platform, arch);
-      const fileName = `bun-${platformId}.zip`;
-      return `https://github.com/oven-sh/bun/releases/download/bun-${version}/${fileName}`;
-    },
+    checksum: { kind: "manifest", fileName: "SHASUMS256.txt" },
+    releaseSource: { kind: "github", repo: "oven-sh/bun", tagPrefix: "bun-" },
+    normalizeVersion: addVersionPrefix,
+    targets: getTargets({
+      darwin: ["x64", "arm64"],
+      linux: ["x64", "arm64"],
+      win32: ["x64", "arm64"],
+    }),
+    downloadUrlTemplate:
+      "https://github.com/oven-sh/bun/releases/download/{tag}/{fileName}",
+    getReleaseTag: (version: string) => `bun-${version}`,
+    getAssetName: (version: string, platform: string, arch: string) =>
+      `bun-${getBunPlatformIdentifier(platform, arch)}.zip`,
     getFileExtension: (platform: string, arch: string) => "zip",
     getExecutablePath: (targetDir: string, platform: string) =>
       path.join(targetDir, platform === "win32" ? "bun.exe" : "bun"),
+    // The archives ship no bunx link; `bun x` is the same command
+    getCommand: (targetDir: string, platform: string, name: string | undefined) =>
+      name === "bunx"
+        ? { executable: RUNTIME_CONFIGS.bun.getExecutablePath(targetDir, platform), args: ["x"] }
+        : undefined,
     extractFiles: async (
       extractedDir: string,
       targetDir: string,
@@ -132,11 +338,20 @@ const RUNTIME_CONFIGS: Record<RuntimeType, RuntimeConfig> = {
   },
   uv: {
     defaultVersion: DEFAULT_VERSIONS.uv,
-    getDownloadUrl: (version: string, platform: string, arch: string) => {
+    checksum: { kind: "sidecar", suffix: ".sha256" },
+    releaseSource: { kind: "github", repo: "astral-sh/uv" },
+    normalizeVersion: stripVersionPrefix,
+    targets: getTargets({
+      darwin: ["x64", "arm64"],
+      linux: ["x64", "arm64", "ia32", "arm", "ppc64", "ppc64le", "s390x", "riscv64"],
+      win32: ["x64", "arm64", "ia32"],
+    }),
+    downloadUrlTemplate:
+      "https://github.com/astral-sh/uv/releases/download/{tag}/{fileName}",
+    getAssetName: (version: string, platform: string, arch: string) => {
       const platformId = getUvPlatformIdentifier(platform, arch);
       const fileExtension = platform === "win32" ? "zip" : "tar.gz";
-      const fileName = `uv-${platformId}.${fileExtension}`;
-      return `https://github.com/astral-sh/uv/releases/download/${version}/${fileName}`;
+      return `uv-${platformId}.${fileExtension}`;
     },
     getFileExtension: (platform: string, arch: string) => platform === "win32" ? "zip" : "tar.gz",
     getExecutablePath: (targetDir: string, platform: string) =>
@@ -179,23 +394,36 @@ const RUNTIME_CONFIGS: Record<RuntimeType, RuntimeConfig> = {
   },
   ripgrep: {
     defaultVersion: DEFAULT_VERSIONS.ripgrep,
-    getDownloadUrl: (version: string, platform: string, arch: string) => {
+    checksum: { kind: "sidecar", suffix: ".sha256" },
+    releaseSource: { kind: "github", repo: "BurntSushi/ripgrep" },
+    normalizeVersion: stripVersionPrefix,
+    targets: getPlatformTableTargets(RIPGREP_PLATFORM),
+    downloadUrlTemplate:
+      "https://github.com/BurntSushi/ripgrep/releases/download/{tag}/{fileName}",
+    getAssetName: (version: string, platform: string, arch: string) => {
       const platformKey = `${arch}-${platform}`;
       const platformConfig = RIPGREP_PLATFORM[platformKey];
 
       if (!platformConfig) {
-        throw new Error(`Unsupported platform for ripgrep: ${platform}-${arch}`);
+        throw new UnsupportedPlatformError(
+          `Unsupported platform for ripgrep: ${platform}-${arch}`,
+          platform,
+          arch
+        );
       }
 
-      const fileName = `ripgrep-${version}-${platformConfig.target}.${platformConfig.ext}`;
-      return `https://github.com/BurntSushi/ripgrep/releases/download/${version}/${fileName}`;
+      return `ripgrep-${version}-${platformConfig.target}.${platformConfig.ext}`;
     },
     getFileExtension: (platform: string, arch: string) => {
       const platformKey = `${arch}-${platform}`;
       const platformConfig = RIPGREP_PLATFORM[platformKey];
 
       if (!platformConfig) {
-        throw new Error(`Unsupported platform for ripgrep: ${platform}-${arch}`);
+        throw new UnsupportedPlatformError(
+          `Unsupported platform for ripgrep: ${platform}-${arch}`,
+          platform,
+          arch
+        );
       }
 
       return platformConfig.ext;
@@ -239,16 +467,52 @@ const RUNTIME_CONFIGS: Record<RuntimeType, RuntimeConfig> = {
   },
   python: {
     defaultVersion: DEFAULT_VERSIONS.python,
-    getDownloadUrl: (version: string, platform: string, arch: string) => {
+    checksum: { kind: "manifest", fileName: "SHA256SUMS" },
+    releaseSource: {
+      kind: "python-build-standalone",
+      repo: "astral-sh/python-build-standalone",
+    },
+    // Only "<python version>+<build date>" names a single build; "3.12" or "3.12.12" pick the newest
+    isExactVersion: (version: string) => PYTHON_EXACT_VERSION_PATTERN.test(version),
+    targets: getTargets({
+      darwin: ["x64", "arm64"],
+      linux: ["x64", "arm64"],
+      win32: ["x64", "arm64"],
+    }),
+    downloadUrlTemplate:
+      "https://github.com/astral-sh/python-build-standalone/releases/download/{tag}/{fileName}",
+    mirrorEnvKeys: ["UV_PYTHON_INSTALL_MIRROR"],
+    getReleaseTag: (version: string) => getPythonReleaseDate(version),
+    getAssetName: (version: string, platform: string, arch: string) => {
       const platformTarget = getPythonPlatformIdentifier(platform, arch);
-      const releaseDate = version.includes("+") ? version.split("+")[1] : "20250117";
+      const releaseDate = getPythonReleaseDate(version);
       const pythonVersion = version.includes("+") ? version.split("+")[0] : version;
-      const fileName = `cpython-${pythonVersion}+${releaseDate}-${platformTarget}-install_only.tar.gz`;
-      return `https://github.com/astral-sh/python-build-standalone/releases/download/${releaseDate}/${fileName}`;
+      return `cpython-${pythonVersion}+${releaseDate}-${platformTarget}-install_only.tar.gz`;
     },
     getFileExtension: (platform: string, arch: string) => "tar.gz",
+    // The Windows builds keep python.exe in the root and pip in Scripts
     getExecutablePath: (targetDir: string, platform: string) =>
-      path.join(targetDir, "bin", platform === "win32" ? "python.exe" : "python3"),
+      platform === "win32"
+        ? path.join(targetDir, "python.exe")
+        : path.join(targetDir, "bin", "python3"),
+    getEnv: (targetDir: string, platform: string, marker?: InstallMarker) =>
+      getPythonEnv(targetDir, platform, marker?.pythonPackages),
+    getCommand: (
+      targetDir: string,
+      platform: string,
+      name: string | undefined,
+      marker?: InstallMarker
+    ) =>
+      getPythonCommand(
+        targetDir,
+        RUNTIME_CONFIGS.python.getExecutablePath(targetDir, platform),
+        platform,
+        name,
+        marker?.pythonPackages
+      ),
+    matchesVersion: (output: string, version: string) =>
+      output.includes(version.includes("+") ? version.split("+")[0] : version),
+    cleanupProfiles: PYTHON_CLEANUP_PROFILES,
     extractFiles: async (
       extractedDir: string,
       targetDir: string,
@@ -278,10 +542,15 @@ const RUNTIME_CONFIGS: Record<RuntimeType, RuntimeConfig> = {
   },
   rtk: {
     defaultVersion: DEFAULT_VERSIONS.rtk,
-    getDownloadUrl: (version: string, platform: string, arch: string) => {
-      const fileName = getRtkAssetName(platform, arch);
-      return `https://github.com/rtk-ai/rtk/releases/download/${normalizeRtkVersion(version)}/${fileName}`;
-    },
+    checksum: { kind: "sidecar", suffix: ".sha256" },
+    releaseSource: { kind: "github", repo: "rtk-ai/rtk" },
+    normalizeVersion: addVersionPrefix,
+    targets: getPlatformTableTargets(RTK_PLATFORM),
+    downloadUrlTemplate:
+      "https://github.com/rtk-ai/rtk/releases/download/{tag}/{fileName}",
+    getReleaseTag: (version: string) => normalizeRtkVersion(version),
+    getAssetName: (version: string, platform: string, arch: string) =>
+      getRtkAssetName(platform, arch),
     getFileExtension: (platform: string, arch: string) =>
       getRtkPlatformConfig(platform, arch).ext,
     getExecutablePath: (targetDir: string, platform: string) =>
@@ -303,8 +572,40 @@ const RUNTIME_CONFIGS: Record<RuntimeType, RuntimeConfig> = {
       });
     },
   },
+  deno: {
+    defaultVersion: DEFAULT_VERSIONS.deno,
+    checksum: { kind: "sidecar", suffix: ".sha256sum" },
+    releaseSource: { kind: "github", repo: "denoland/deno" },
+    normalizeVersion: addVersionPrefix,
+    targets: getPlatformTableTargets(DENO_PLATFORM),
+    downloadUrlTemplate:
+      "https://github.com/denoland/deno/releases/download/{tag}/{fileName}",
+    getAssetName: (version: string, platform: string, arch: string) =>
+      `deno-${getDenoPlatformIdentifier(platform, arch)}.zip`,
+    getFileExtension: (platform: string, arch: string) => "zip",
+    getExecutablePath: (targetDir: string, platform: string) =>
+      path.join(targetDir, platform === "win32" ? "deno.exe" : "deno"),
+    extractFiles: async (
+      extractedDir: string,
+      targetDir: string,
+      version: string,
+      platform: string,
+      arch: string
+    ) => {
+      const execName = platform === "win32" ? "deno.exe" : "deno";
+      const executablePath = await findExecutableInExtractedDir(
+        extractedDir,
+        execName
+      );
+      await fs.move(executablePath, path.join(targetDir, execName), {
+        overwrite: true,
+      });
+    },
+  },
 };
 
+registerBuiltinRuntimes(RUNTIME_CONFIGS);
+
 function getNodePlatformIdentifier(platform: string, arch: string): string {
   const archStr = String(arch);
 
@@ -322,7 +623,11 @@ function getNodePlatformIdentifier(platform: string, arch: string): string {
     return "win-x64";
   }
 
-  throw new Error(`Unsupported platform: ${platform}-${archStr}`);
+  throw new UnsupportedPlatformError(
+    `Unsupported platform: ${platform}-${archStr}`,
+    platform,
+    archStr
+  );
 }
 
 function getBunPlatformIdentifier(platform: string, arch: string): string {
@@ -335,7 +640,11 @@ function getBunPlatformIdentifier(platform: string, arch: string): string {
     return arch === "arm64" ? "windows-aarch64" : "windows-x64";
   }
 
-  throw new Error(`Unsupported platform for Bun: ${platform}-${arch}`);
+  throw new UnsupportedPlatformError(
+    `Unsupported platform for Bun: ${platform}-${arch}`,
+    platform,
+    arch
+  );
 }
 
 function getUvPlatformIdentifier(platform: string, arch: string): string {
@@ -367,7 +676,11 @@ function getUvPlatformIdentifier(platform: string, arch: string): string {
     return "x86_64-pc-windows-msvc";
   }
 
-  throw new Error(`Unsupported platform for uv: ${platform}-${arch}`);
+  throw new UnsupportedPlatformError(
+    `Unsupported platform for uv: ${platform}-${arch}`,
+    platform,
+    arch
+  );
 }
 
 function getRipgrepPlatformIdentifier(platform: string, arch: string): string {
@@ -377,7 +690,11 @@ function getRipgrepPlatformIdentifier(platform: string, arch: string): string {
     return RIPGREP_PLATFORM[platformKey].target;
   }
 
-  throw new Error(`Unsupported platform for ripgrep: ${platform}-${arch}`);
+  throw new UnsupportedPlatformError(
+    `Unsupported platform for ripgrep: ${platform}-${arch}`,
+    platform,
+    arch
+  );
 }
 
 function getPythonPlatformIdentifier(platform: string, arch: string): string {
@@ -393,8 +710,10 @@ function getPythonPlatformIdentifier(platform: string, arch: string): string {
     if (archStr === "x64" || archStr === "x86_64") return "x86_64-unknown-linux-gnu";
 
     // Other Linux architectures are not supported as per requirements
-    throw new Error(
-      `Unsupported platform for Python: ${platform}-${archStr}. Only x64 and arm64 are supported for Linux.`
+    throw new UnsupportedPlatformError(
+      `Unsupported platform for Python: ${platform}-${archStr}. Only x64 and arm64 are supported for Linux.`,
+      platform,
+      archStr
     );
   } else if (platform === "win32") {
     // Windows only supports x64 (as per requirements)
@@ -402,16 +721,38 @@ function getPythonPlatformIdentifier(platform: string, arch: string): string {
     if (archStr === "arm64") return "aarch64-pc-windows-msvc";
 
     // Windows x86 is not supported by python-build-standalone
-    throw new Error(
-      `Unsupported platform for Python: ${platform}-${archStr}. Only x64 and arm64 are supported for Windows.`
+    throw new UnsupportedPlatformError(
+      `Unsupported platform for Python: ${platform}-${archStr}. Only x64 and arm64 are supported for Windows.`,
+      platform,
+      archStr
     );
   }
 
-  throw new Error(
-    `Unsupported platform for Python: ${platform}-${archStr}`
+  throw new UnsupportedPlatformError(
+    `Unsupported platform for Python: ${platform}-${archStr}`,
+    platform,
+    archStr
+  );
+}
+
+function getDenoPlatformIdentifier(platform: string, arch: string): string {
+  const platformKey = `${arch}-${platform}`;
+
+  if (platformKey in DENO_PLATFORM) {
+    return DENO_PLATFORM[platformKey].target;
+  }
+
+  throw new UnsupportedPlatformError(
+    `Unsupported platform for Deno: ${platform}-${arch}. Supported targets: ${Object.keys(DENO_PLATFORM).join(", ")}.`,
+    platform,
+    arch
   );
 }
 
+function getPythonReleaseDate(version: string): string {
+  return version.includes("+") ? version.split("+")[1] : "20250117";
+}
+
 function getRtkPlatformConfig(
   platform: string,
   arch: string
@@ -424,8 +765,10 @@ function getRtkPlatformConfig(
     return platformConfig;
   }
 
-  throw new Error(
-    `Unsupported platform for rtk: ${platform}-${archStr}. Supported targets: ${RTK_SUPPORTED_PLATFORMS}.`
+  throw new UnsupportedPlatformError(
+    `Unsupported platform for rtk: ${platform}-${archStr}. Supported targets: ${RTK_SUPPORTED_PLATFORMS}.`,
+    platform,
+    archStr
   );
 }
 
@@ -446,6 +789,10 @@ function stripVersionPrefix(version: string): string {
   return version.startsWith("v") ? version.slice(1) : version;
 }
 
+function addVersionPrefix(version: string): string {
+  return version.startsWith("v") ? version : `v${version}`;
+}
+
 async function findExecutableInExtractedDir(
   extractedDir: string,
   execName: string
@@ -474,6 +821,16 @@ const PROXY_ENV_KEYS = {
 
 const GITHUB_TOKEN_ENV_KEYS = ["GITHUB_TOKEN", "GH_TOKEN"] as const;
 
+/** An archive fetched for one platform-arch, by the injector that owns it */
+type FetchedArchive = {
+  injector: RuntimeInjector;
+  upstreamUrl: string;
+  downloadUrl: string;
+  downloadPath?: string;
+  fileExtension?: string;
+  sha256?: string;
+};
+
 type ProxyConfig = {
   protocol: string;
   host: string;
@@ -523,19 +880,34 @@ function getResponseMessage(data: unknown): string | undefined {
   return typeof message === "string" ? message : undefined;
 }
 
-function createRtkReleaseLookupError(
+function createReleaseLookupError(
   error: unknown,
+  runtimeType: string,
+  url: string,
   hasGitHubToken: boolean
-): Error {
+): RuntimeInjectorError {
+  const isGitHubApi = new URL(url).host === "api.github.com";
+  const source = isGitHubApi ? "GitHub" : url;
+
   if (axios.isAxiosError(error)) {
     const responseMessage = getResponseMessage(error.response?.data) ?? error.message;
+    if (!isGitHubApi) {
+      return new DownloadError(
+        `Failed to list ${runtimeType} releases from ${source}: ${responseMessage}`,
+        url,
+        error
+      );
+    }
+
     const hint = hasGitHubToken
-      ? "Check GITHUB_TOKEN or GH_TOKEN permissions/value, or pin a specific rtk version with --runtime-version to skip the latest release lookup."
-      : "Set GITHUB_TOKEN or GH_TOKEN in CI, or pin a specific rtk version with --runtime-version to skip the latest release lookup.";
+      ? `Check GITHUB_TOKEN or GH_TOKEN permissions/value, or pin a specific ${runtimeType} version with --runtime-version to skip the release lookup.`
+      : `Set GITHUB_TOKEN or GH_TOKEN in CI, or pin a specific ${runtimeType} version with --runtime-version to skip the release lookup.`;
 
     if (error.response?.status === 401) {
-      return new Error(
-        `Failed to authenticate with GitHub while resolving the latest rtk release. ${hint} GitHub API response: ${responseMessage}`
+      return new GitHubAuthError(
+        `Failed to authenticate with GitHub while listing ${runtimeType} releases. ${hint} GitHub API response: ${responseMessage}`,
+        401,
+        error
       );
     }
 
@@ -543,18 +915,33 @@ function createRtkReleaseLookupError(
       const isRateLimitError = responseMessage.toLowerCase().includes("rate limit");
       const prefix =
         !hasGitHubToken && isRateLimitError
-          ? "GitHub API rate limit exceeded while resolving the latest rtk release."
-          : "GitHub API denied access while resolving the latest rtk release.";
-      return new Error(`${prefix} ${hint} GitHub API response: ${responseMessage}`);
+          ? `GitHub API rate limit exceeded while listing ${runtimeType} releases.`
+          : `GitHub API denied access while listing ${runtimeType} releases.`;
+      const message = `${prefix} ${hint} GitHub API response: ${responseMessage}`;
+      if (!isRateLimitError) {
+        return new GitHubAuthError(message, 403, error);
+      }
+      const reset = Number(error.response.headers?.["x-ratelimit-reset"]);
+      return new GitHubRateLimitError(
+        message,
+        reset > 0 ? new Date(reset * 1000) : undefined,
+        error
+      );
     }
 
-    return new Error(
-      `Failed to resolve the latest rtk release from GitHub. GitHub API response: ${responseMessage}`
+    return new DownloadError(
+      `Failed to list ${runtimeType} releases from GitHub. GitHub API response: ${responseMessage}`,
+      url,
+      error
     );
   }
 
   const fallbackMessage = error instanceof Error ? error.message : String(error);
-  return new Error(`Failed to resolve the latest rtk release from GitHub. ${fallbackMessage}`);
+  return new DownloadError(
+    `Failed to list ${runtimeType} releases from ${source}. ${fallbackMessage}`,
+    url,
+    error
+  );
 }
 
 function normalizeProxyUrl(proxyUrl: string, fallbackProtocol: string): string {
@@ -669,16 +1056,16 @@ function buildProxyConfig(proxyUrl: string, fallbackProtocol: string): ProxyConf
   try {
     parsed = new URL(normalizedUrl);
   } catch {
-    throw new Error(`Invalid proxy URL: ${proxyUrl}`);
+    throw new ConfigError(`Invalid proxy URL: ${proxyUrl}`);
   }
 
   if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
-    throw new Error(`Unsupported proxy protocol: ${parsed.protocol}`);
+    throw new ConfigError(`Unsupported proxy protocol: ${parsed.protocol}`);
   }
 
   const port = parsed.port ? Number(parsed.port) : getDefaultPort(parsed.protocol);
   if (Number.isNaN(port)) {
-    throw new Error(`Invalid proxy port in URL: ${proxyUrl}`);
+    throw new ConfigError(`Invalid proxy port in URL: ${proxyUrl}`);
   }
 
   const proxyConfig: ProxyConfig = {
@@ -701,10 +1088,20 @@ export class RuntimeInjector {
   private options: RuntimeOptions;
   private runtimeInfo: RuntimeInfo;
   private config: RuntimeConfig;
+  private requestedVersion: string;
+  private lockfilePath?: string;
+  private lockEntry?: LockfileEntry;
+  private cache?: DownloadCache;
+  private expectedSha256Requests = new Map<string, Promise<string | undefined>>();
+  // Set for arch "universal": one injector per architecture that gets merged
+  private universalParts?: RuntimeInjector[];
+  private logger: Logger;
 
   constructor(options: RuntimeOptions) {
+    this.logger = options.logger ?? consoleLogger;
     const runtimeType = options.type || "node";
-    this.config = RUNTIME_CONFIGS[runtimeType];
+    this.config = getRuntimeConfig(runtimeType);
+    this.requestedVersion = options.version || this.config.defaultVersion;
 
     this.options = {
       type: runtimeType,
@@ -716,7 +1113,75 @@ export class RuntimeInjector {
       httpProxy: options.httpProxy,
       httpsProxy: options.httpsProxy,
       noProxy: options.noProxy,
+      expectedSha256: options.expectedSha256
+        ? normalizeSha256(options.expectedSha256)
+        : undefined,
+      lockfile: options.lockfile ?? (options.frozen ? true : undefined),
+      frozen: options.frozen ?? false,
+      archivePath: options.archivePath
+        ? path.resolve(options.archivePath)
+        : undefined,
+      mirrorDir: options.mirrorDir ? path.resolve(options.mirrorDir) : undefined,
+      offline: options.offline ?? false,
+      mirror: options.mirror,
+      mirrors: options.mirrors,
+      download: options.download,
+      pythonPackages: options.pythonPackages,
+      npmPackages: options.npmPackages,
+      verify: options.verify ?? "auto",
+      onEvent: options.onEvent,
     };
+    if (this.options.pythonPackages && runtimeType !== "python") {
+      throw new ConfigError(
+        `pythonPackages is only supported for the python runtime, not ${runtimeType}`
+      );
+    }
+    if (this.options.npmPackages && runtimeType !== "node") {
+      throw new ConfigError(
+        `npmPackages is only supported for the node runtime, not ${runtimeType}`
+      );
+    }
+    if (!["auto", "exec", "static"].includes(this.options.verify!)) {
+      throw new ConfigError(
+        `Unknown verify mode "${this.options.verify}". Expected auto, exec or static`
+      );
+    }
+    if (this.options.download) {
+      validateDownloadOptions(this.options.download);
+    }
+    if (typeof this.options.cleanup === "object") {
+      getCleanupProfilePatterns(
+        runtimeType,
+        this.config.cleanupProfiles,
+        this.options.cleanup.profile
+      );
+    }
+    if (this.options.arch === "universal") {
+      if (this.options.platform !== "darwin") {
+        throw new UnsupportedPlatformError(
+          `arch "universal" is only supported for darwin, not ${this.options.platform}`,
+          this.options.platform!,
+          "universal"
+        );
+      }
+      if (this.options.archivePath || this.options.expectedSha256) {
+        throw new ConfigError(
+          'arch "universal" downloads one archive per architecture; archivePath and expectedSha256 are not supported'
+        );
+      }
+      this.universalParts = UNIVERSAL_ARCHS.map(
+        (arch) => new RuntimeInjector({ ...options, type: runtimeType, arch })
+      );
+    }
+    this.lockfilePath = resolveLockfilePath(
+      this.options.lockfile,
+      this.options.targetDir
+    );
+
+    const cacheDir = resolveCacheDir(options.cacheDir);
+    if (cacheDir) {
+      this.cache = new DownloadCache(cacheDir);
+    }
 
     this.runtimeInfo = {
       type: this.options.type!,
@@ -731,160 +1196,344 @@ export class RuntimeInjector {
     };
   }
 
+  /** Passes an event to onEvent; a throwing listener never fails the install */
+  private emit(details: InjectEventDetails): void {
+    if (!this.options.onEvent) {
+      return;
+    }
+    const { type, version, platform, arch } = this.runtimeInfo;
+    try {
+      this.options.onEvent({ type, version, platform, arch, ...details });
+    } catch (error) {
+      this.logger.warn(`onEvent listener failed: ${error}`);
+    }
+  }
+
   private updateResolvedVersion(version: string): void {
     this.options.version = version;
     this.runtimeInfo.version = version;
   }
 
-  private async fetchLatestRtkRelease(): Promise<{
-    tagName: string;
-    assets: string[];
-  }> {
-    const releaseUrl = "https://api.github.com/repos/rtk-ai/rtk/releases/latest";
-    const proxyConfig = this.getProxyConfigForUrl(releaseUrl);
-    const githubToken = getGitHubToken();
+  private getReleaseSource(): ReleaseSource {
+    const source = this.config.releaseSource;
+    if (!source) {
+      throw new ConfigError(
+        `${this.runtimeInfo.type} does not publish a release list; use an exact version`
+      );
+    }
+
+    // Node mirrors carry index.json next to the version directories
+    const mirror = this.getMirror();
+    if (source.kind === "node-dist" && mirror && !isMirrorTemplate(mirror)) {
+      return {
+        ...source,
+        indexUrl: rebaseOnMirror(mirror, this.config, source.indexUrl),
+      };
+    }
+
+    return source;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
     const headers: Record<string, string> = {
-      Accept: "application/vnd.github+json",
       "User-Agent": "tiny-runtime-injector",
     };
 
-    if (githubToken) {
-      headers.Authorization = `Bearer ${githubToken}`;
+    if (new URL(url).host === "api.github.com") {
+      headers.Accept = "application/vnd.github+json";
+      const githubToken = getGitHubToken();
+      if (githubToken) {
+        headers.Authorization = `Bearer ${githubToken}`;
+      }
     }
 
-    try {
-      const response = await axios.get<{
-        tag_name: string;
-        assets?: Array<{ name: string }>;
-      }>(releaseUrl, {
-        headers,
-        proxy: proxyConfig ?? false,
-      });
+    const response = await axios.get<T>(url, {
+      headers,
+      proxy: this.getProxyConfigForUrl(url) ?? false,
+    });
+    return response.data;
+  }
 
-      return {
-        tagName: normalizeRtkVersion(response.data.tag_name),
-        assets: (response.data.assets ?? []).map((asset) => asset.name),
-      };
+  /**
+   * Lists the runtime's published releases, newest first. `latestOnly`
+   * fetches just the release GitHub marks as latest.
+   */
+  private async fetchReleases(latestOnly = false): Promise<RuntimeRelease[]> {
+    const source = this.getReleaseSource();
+    const sourceUrl =
+      source.kind === "node-dist"
+        ? source.indexUrl
+        : `https://api.github.com/repos/${source.repo}/releases`;
+    this.assertOnline(`list ${this.runtimeInfo.type} releases from ${sourceUrl}`);
+
+    let currentUrl = sourceUrl;
+    try {
+      return await fetchReleases(
+        source,
+        (url) => {
+          currentUrl = url;
+          return this.fetchJson(url);
+        },
+        latestOnly
+      );
     } catch (error) {
-      throw createRtkReleaseLookupError(error, Boolean(githubToken));
+      throw createReleaseLookupError(
+        error,
+        this.runtimeInfo.type,
+        currentUrl,
+        Boolean(getGitHubToken())
+      );
     }
   }
 
-  private async resolveRtkVersion(): Promise<void> {
-    if (this.runtimeInfo.type !== "rtk") {
+  /**
+   * Lists published releases, newest first, with the platform/arch targets
+   * each one ships an asset for. `range` filters by alias or semver range.
+   */
+  public async listVersions(
+    options: Pick<ListVersionsOptions, "range" | "limit"> = {}
+  ): Promise<RuntimeVersionInfo[]> {
+    const { getAssetName, targets = [] } = this.config;
+    if (!getAssetName) {
+      throw new ConfigError(`${this.runtimeInfo.type} does not define asset names to list`);
+    }
+
+    const releases = filterReleases(await this.fetchReleases(), options.range?.trim());
+    const limited =
+      options.limit === undefined ? releases : releases.slice(0, options.limit);
+
+    return limited.map((release) => ({
+      version: release.version,
+      tag: release.tag,
+      date: release.date,
+      lts: release.lts,
+      prerelease: release.prerelease,
+      targets: targets.map(({ platform, arch }) => {
+        const assetName = getAssetName(release.version, platform, arch);
+        return {
+          platform,
+          arch,
+          assetName,
+          available: release.assets.includes(assetName),
+        };
+      }),
+    }));
+  }
+
+  private isExactVersion(version: string): boolean {
+    return this.config.isExactVersion
+      ? this.config.isExactVersion(version)
+      : isExactSemver(version);
+  }
+
+  /**
+   * Resolves aliases (`latest`, `lts`, `lts/<codename>`) and semver ranges
+   * (`^22`, `22.x`, `3.12`) to the newest release that ships an asset for
+   * the target platform. Exact versions are only normalized.
+   */
+  private async resolveVersion(): Promise<void> {
+    const { type, platform, arch } = this.runtimeInfo;
+    const spec = this.options.version!.trim();
+
+    if (this.isExactVersion(spec) || !isValidVersionSpec(spec)) {
+      this.updateResolvedVersion(
+        this.config.normalizeVersion ? this.config.normalizeVersion(spec) : spec
+      );
       return;
     }
 
-    const normalizedVersion = normalizeRtkVersion(this.options.version);
-    if (normalizedVersion !== "latest") {
-      this.updateResolvedVersion(normalizedVersion);
+    const isLatest = ["latest", "current"].includes(spec.toLowerCase());
+    const description = isLatest
+      ? `the latest ${type} release`
+      : `${type} version "${spec}"`;
+    this.assertOnline(
+      `resolve ${description}. Pin an exact ${type} version with --runtime-version or use a lockfile`
+    );
+
+    this.logger.info(`Resolving ${description}...`);
+    const releases = await this.fetchReleases(isLatest);
+    const getAssetName = (version: string) => {
+      if (!this.config.getAssetName) {
+        throw new ConfigError(`Cannot resolve ${description}: ${type} has no asset names`);
+      }
+      return this.config.getAssetName(version, platform, arch);
+    };
+    const release = selectRelease(releases, spec, (candidate) =>
+      candidate.assets.includes(getAssetName(candidate.version))
+    );
+
+    if (!release) {
+      const newest = selectRelease(releases, spec);
+      throw new VersionNotFoundError(
+        newest
+          ? `No release matching ${description} includes an asset for ${platform}-${arch} (newest match ${newest.version} lacks ${getAssetName(newest.version)})`
+          : `No release matches ${description}`,
+        type,
+        spec
+      );
+    }
+
+    this.updateResolvedVersion(release.version);
+    this.logger.info(`Resolved ${description}: ${release.version}`);
+  }
+
+  private async resolveVersionFromLockfile(): Promise<void> {
+    if (!this.lockfilePath) {
+      await this.resolveVersion();
       return;
     }
 
-    const expectedAsset = getRtkAssetName(
+    const lockfile = await readLockfile(this.lockfilePath);
+    const key = getLockEntryKey(
+      this.runtimeInfo.type,
       this.runtimeInfo.platform,
       this.runtimeInfo.arch
     );
+    const entry = lockfile.runtimes[key];
+
+    if (entry && entry.requestedVersion === this.requestedVersion) {
+      this.lockEntry = entry;
+      this.updateResolvedVersion(entry.version);
+      this.logger.info(
+        `Using ${entry.type} ${entry.version} pinned in ${this.lockfilePath}`
+      );
+      return;
+    }
+
+    if (this.options.frozen) {
+      throw new LockfileError(
+        entry
+          ? `Frozen lockfile ${this.lockfilePath} pins ${key} to version "${entry.requestedVersion}", but "${this.requestedVersion}" was requested`
+          : `Frozen lockfile ${this.lockfilePath} has no entry for ${key}`,
+        this.lockfilePath
+      );
+    }
+
+    await this.resolveVersion();
+  }
+
+  private assertMatchesLockfile(downloadUrl: string): void {
+    if (!this.options.frozen || !this.lockEntry) {
+      return;
+    }
 
-    console.log("Resolving latest rtk release...");
-    const release = await this.fetchLatestRtkRelease();
-    if (!release.assets.includes(expectedAsset)) {
-      throw new Error(
-        `Latest rtk release ${release.tagName} does not include asset ${expectedAsset} for ${this.runtimeInfo.platform}-${this.runtimeInfo.arch}`
+    if (this.lockEntry.url !== downloadUrl) {
+      throw new LockfileError(
+        `Frozen lockfile ${this.lockfilePath} expects ${this.lockEntry.url}, but resolved ${downloadUrl}`,
+        this.lockfilePath!
       );
     }
 
-    this.updateResolvedVersion(release.tagName);
-    console.log(`Resolved latest rtk version: ${release.tagName}`);
+    if (
+      this.options.expectedSha256 &&
+      this.lockEntry.sha256 &&
+      this.options.expectedSha256 !== this.lockEntry.sha256
+    ) {
+      throw new LockfileError(
+        `Frozen lockfile ${this.lockfilePath} expects sha256 ${this.lockEntry.sha256}, but ${this.options.expectedSha256} was given`,
+        this.lockfilePath!
+      );
+    }
+  }
+
+  private async writeLockEntry(
+    downloadUrl: string,
+    sha256: string | undefined
+  ): Promise<void> {
+    if (!this.lockfilePath || this.options.frozen) {
+      return;
+    }
+
+    const entry: LockfileEntry = {
+      type: this.runtimeInfo.type,
+      requestedVersion: this.requestedVersion,
+      version: this.runtimeInfo.version,
+      url: downloadUrl,
+      sha256,
+      platform: this.runtimeInfo.platform,
+      arch: this.runtimeInfo.arch,
+    };
+
+    if (
+      this.lockEntry &&
+      (Object.keys(entry) as Array<keyof LockfileEntry>).every(
+        (key) => this.lockEntry![key] === entry[key]
+      )
+    ) {
+      return;
+    }
+
+    await updateLockfile(this.lockfilePath, entry);
+    this.lockEntry = entry;
+    this.logger.info(`Updated lockfile: ${this.lockfilePath}`);
   }
 
   private async isAlreadyInstalled(): Promise<boolean> {
     try {
-      const markerFile = path.join(
-        this.runtimeInfo.targetDir,
-        `${this.runtimeInfo.type}_${this.runtimeInfo.platform}_${this.runtimeInfo.arch}`
+      const marker = await readInstallMarker(
+        getInstallMarkerPath(
+          this.runtimeInfo.targetDir,
+          this.runtimeInfo.type,
+          this.runtimeInfo.platform,
+          this.runtimeInfo.arch
+        )
       );
 
-      if (await fs.pathExists(markerFile)) {
-        const installedVersion = await fs.readFile(markerFile, "utf8");
+      if (marker?.version === this.runtimeInfo.version) {
+        if (this.options.pythonPackages) {
+          const requested = await describePythonPackages(this.options.pythonPackages);
+          if (!isSamePythonPackages(marker.pythonPackages, requested)) {
+            this.logger.info("Python packages changed, will reinstall");
+            return false;
+          }
+        }
+        if (this.options.npmPackages) {
+          const requested = await describeNpmPackages(this.options.npmPackages);
+          if (!isSameNpmPackages(marker.npmPackages, requested)) {
+            this.logger.info("npm packages changed, will reinstall");
+            return false;
+          }
+        }
 
-        if (installedVersion.trim() === this.runtimeInfo.version) {
-          if (await fs.pathExists(this.runtimeInfo.executablePath)) {
-            try {
-              const execPath = this.runtimeInfo.executablePath.replace(
-                /(\s+)/g,
-                "\\$1"
-              );
+        if (this.getVerifyMode() === "static") {
+          return await this.verifyStatically(marker);
+        }
 
-              let testCommand: string;
-              switch (this.runtimeInfo.type) {
-                case "node":
-                  testCommand = `"${execPath}" -v`;
-                  break;
-                case "bun":
-                  testCommand = `"${execPath}" --version`;
-                  break;
-                case "uv":
-                  testCommand = `"${execPath}" --version`;
-                  break;
-                case "ripgrep":
-                  testCommand = `"${execPath}" --version`;
-                  break;
-                case "python":
-                  testCommand = `"${execPath}" --version`;
-                  break;
-                case "rtk":
-                  testCommand = `"${execPath}" --version`;
-                  break;
-                default:
-                  throw new Error(
-                    `Unknown runtime type: ${this.runtimeInfo.type}`
-                  );
-              }
-
-              const { stdout } = await execAsync(testCommand);
-              const actualVersion = stdout.trim();
-
-              // For different runtimes, version formats may vary
-              if (this.runtimeInfo.type === "node") {
-                return actualVersion === this.runtimeInfo.version;
-              } else if (this.runtimeInfo.type === "bun") {
-                return actualVersion.includes(
-                  this.runtimeInfo.version.replace("v", "")
-                );
-              } else if (this.runtimeInfo.type === "uv") {
-                return actualVersion.includes(this.runtimeInfo.version);
-              } else if (this.runtimeInfo.type === "ripgrep") {
-                return actualVersion.includes(this.runtimeInfo.version);
-              } else if (this.runtimeInfo.type === "python") {
-                const pythonVersion = this.runtimeInfo.version.includes("+")
-                  ? this.runtimeInfo.version.split("+")[0]
-                  : this.runtimeInfo.version;
-                return actualVersion.includes(pythonVersion);
-              } else if (this.runtimeInfo.type === "rtk") {
-                return actualVersion.includes(
+        if (await fs.pathExists(this.runtimeInfo.executablePath)) {
+          try {
+            const execPath = this.runtimeInfo.executablePath.replace(
+              /(\s+)/g,
+              "\\$1"
+            );
+
+            const versionArgs = this.config.versionArgs ?? ["--version"];
+            const { stdout } = await execAsync(
+              [`"${execPath}"`, ...versionArgs].join(" ")
+            );
+            const actualVersion = stdout.trim();
+
+            // For different runtimes, version formats may vary
+            return this.config.matchesVersion
+              ? this.config.matchesVersion(actualVersion, this.runtimeInfo.version)
+              : actualVersion.includes(
                   stripVersionPrefix(this.runtimeInfo.version)
                 );
-              }
-
-              return true;
-            } catch (err: unknown) {
-              if (err instanceof Error) {
-                console.log(
-                  `${this.runtimeInfo.type} execution test failed, will redownload: ${err.message}`
-                );
-              } else {
-                console.log(
-                  `${this.runtimeInfo.type} execution test failed, will redownload`
-                );
-              }
+          } catch (err: unknown) {
+            if (err instanceof Error) {
+              this.logger.info(
+                `${this.runtimeInfo.type} execution test failed, will redownload: ${err.message}`
+              );
+            } else {
+              this.logger.info(
+                `${this.runtimeInfo.type} execution test failed, will redownload`
+              );
             }
           }
         }
       }
       return false;
     } catch (error) {
-      console.error(
+      this.logger.error(
         `Failed to check ${this.runtimeInfo.type} installation:`,
         error
       );
@@ -892,21 +1541,348 @@ export class RuntimeInjector {
     }
   }
 
+  private isHostTarget(): boolean {
+    return (
+      this.runtimeInfo.platform === process.platform &&
+      this.runtimeInfo.arch === process.arch
+    );
+  }
+
+  private getVerifyMode(): "exec" | "static" {
+    if (this.options.verify === "auto") {
+      return this.isHostTarget() ? "exec" : "static";
+    }
+    return this.options.verify!;
+  }
+
+  /**
+   * Checks an install without running it: every file recorded in the marker
+   * must still match its hash, and the executable must be built for the
+   * target platform and arch.
+   */
+  private async verifyStatically(marker: InstallMarker): Promise<boolean> {
+    const { type, targetDir, executablePath, platform, arch } = this.runtimeInfo;
+    if (!marker.files) {
+      this.logger.info(`${type} install has no recorded file hashes, will redownload`);
+      return false;
+    }
+
+    // Extra files are reported by verify() but don't make the runtime unusable
+    const { missing, modified } = await compareInstalledFiles(targetDir, marker.files);
+    const changed = [...missing, ...modified];
+    if (changed.length > 0) {
+      this.logger.info(
+        `${type} files changed since install, will redownload: ${changed.slice(0, 5).join(", ")}${changed.length > 5 ? ", ..." : ""}`
+      );
+      return false;
+    }
+
+    if (!(await fs.pathExists(executablePath))) {
+      this.logger.info(`${type} executable is missing, will redownload`);
+      return false;
+    }
+    const mismatch = await checkBinaryTarget(executablePath, platform, arch);
+    if (mismatch) {
+      this.logger.info(`${type} binary check failed, will redownload: ${mismatch}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Runs the runtime installed in targetDir, or one of its commands such as
+   * `npx` or `uvx`, with its PATH entries and variables. See runWith.
+   */
+  public exec(args: string[] = [], options: RunOptions = {}): Promise<RunResult> {
+    return runWith(this.runtimeInfo, args, { logger: this.logger, ...options });
+  }
+
+  /**
+   * Compares targetDir against the file list in its install record and
+   * reports missing, modified and extra files. Nothing is downloaded.
+   */
+  public async verify(): Promise<InstallVerification> {
+    const { type, targetDir, platform, arch } = this.runtimeInfo;
+    const markerPath = getInstallMarkerPath(targetDir, type, platform, arch);
+    const marker = await readInstallMarker(markerPath);
+    if (!marker) {
+      throw new VerifyError(`No ${type} install record found at ${markerPath}`, targetDir);
+    }
+    if (!marker.files) {
+      throw new VerifyError(
+        `The install record at ${markerPath} has no file list; reinstall ${type} to record one`,
+        targetDir
+      );
+    }
+
+    const changes = await compareInstalledFiles(targetDir, marker.files, [
+      path.basename(markerPath),
+    ]);
+    return {
+      targetDir,
+      marker,
+      ok: !changes.missing.length && !changes.modified.length && !changes.extra.length,
+      ...changes,
+    };
+  }
+
   private async downloadFile(url: string, destination: string): Promise<void> {
-    console.log(`Downloading: ${url}`);
     await fs.ensureDir(path.dirname(destination));
 
-    const writer = createWriteStream(destination);
-    const proxyConfig = this.getProxyConfigForUrl(url);
-    const response = await axios({
-      method: "GET",
-      url: url,
-      responseType: "stream",
-      proxy: proxyConfig ?? false,
+    const cachedPath = await this.lookupCache(url);
+    if (cachedPath) {
+      this.logger.info(`Using cached download: ${cachedPath}`);
+      await this.copyArchive(url, cachedPath, destination, "cache");
+      return;
+    }
+
+    const mirrorPath = await this.findInMirrorDir(url);
+    if (mirrorPath) {
+      this.logger.info(`Using mirrored file: ${mirrorPath}`);
+      await this.copyArchive(url, mirrorPath, destination, "mirror");
+      return;
+    }
+
+    this.assertOnline(`download ${url}`);
+    this.logger.info(`Downloading: ${url}`);
+
+    const partial = await this.claimPartialDownload(url, destination);
+    try {
+      await downloadWithRetries({
+        url,
+        destination,
+        partialPath: partial.path,
+        proxy: this.getProxyConfigForUrl(url),
+        options: { ...DEFAULT_DOWNLOAD_OPTIONS, ...this.options.download },
+        logger: this.logger,
+        onProgress: (progress) =>
+          this.emit({ phase: "download", url, source: "network", ...progress }),
+      });
+    } finally {
+      await partial.release().catch((error) => {
+        this.logger.warn(`Failed to release partial download ${partial.path}: ${error}`);
+      });
+    }
+    this.logger.info(`File downloaded to: ${destination}`);
+  }
+
+  /**
+   * Interrupted downloads are kept in the cache so a later install can
+   * resume them; without a usable cache they only survive retries.
+   */
+  private async claimPartialDownload(
+    url: string,
+    destination: string
+  ): Promise<PartialDownload> {
+    const fallback = { path: `${destination}.partial`, release: async () => undefined };
+    if (!this.cache) {
+      return fallback;
+    }
+
+    try {
+      return await this.cache.claimPartial(url);
+    } catch (error) {
+      this.logger.warn(`Failed to write download cache ${this.cache.dir}: ${error}`);
+      return fallback;
+    }
+  }
+
+  /** Copies an archive that is already on disk, reported as a completed download */
+  private async copyArchive(
+    url: string,
+    sourcePath: string,
+    destination: string,
+    source: DownloadSource
+  ): Promise<void> {
+    await fs.copy(sourcePath, destination);
+    const { size } = await fs.stat(destination);
+    this.emit({ phase: "download", url, source, bytes: size, total: size, bytesPerSecond: 0 });
+  }
+
+  private getMirror(): string | undefined {
+    const mirror =
+      this.options.mirror ??
+      this.options.mirrors?.[this.runtimeInfo.type] ??
+      getTrimmedEnvValue(getMirrorEnvKeys(this.runtimeInfo.type, this.config));
+    return mirror?.trim() || undefined;
+  }
+
+  private getDownloadUrl(): string {
+    const { version, platform, arch } = this.runtimeInfo;
+    const mirror = this.getMirror();
+    if (!mirror) {
+      return getUpstreamDownloadUrl(this.config, version, platform, arch);
+    }
+
+    const mirrorUrl = applyMirror(mirror, this.config, version, platform, arch);
+    this.logger.info(`Using mirror for ${this.runtimeInfo.type}: ${mirror}`);
+    return mirrorUrl;
+  }
+
+  private assertOnline(action: string): void {
+    if (!this.options.offline) {
+      return;
+    }
+
+    const mirrorHint = this.options.mirrorDir
+      ? ` (not found in mirror directory ${this.options.mirrorDir})`
+      : "";
+    throw new OfflineError(`Offline mode: refusing to ${action}${mirrorHint}`, action);
+  }
+
+  /**
+   * Maps an upstream URL to its location in a mirror directory laid out like
+   * the upstream hosts, e.g. `<mirrorDir>/nodejs.org/dist/v24.12.0/<file>`.
+   */
+  private async findInMirrorDir(url: string): Promise<string | undefined> {
+    if (!this.options.mirrorDir) {
+      return undefined;
+    }
+
+    const parsedUrl = new URL(url);
+    const mirrorPath = path.join(
+      this.options.mirrorDir,
+      parsedUrl.host,
+      ...decodeURIComponent(parsedUrl.pathname).split("/").filter(Boolean)
+    );
+    return (await fs.pathExists(mirrorPath)) ? mirrorPath : undefined;
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const mirrorPath = await this.findInMirrorDir(url);
+    if (mirrorPath) {
+      return fs.readFile(mirrorPath, "utf8");
+    }
+
+    this.assertOnline(`fetch ${url}`);
+    const response = await axios.get<string>(url, {
+      responseType: "text",
+      proxy: this.getProxyConfigForUrl(url) ?? false,
     });
+    return String(response.data);
+  }
+
+  private async lookupCache(url: string): Promise<string | undefined> {
+    if (!this.cache) {
+      return undefined;
+    }
 
-    await pipeline(response.data, writer);
-    console.log(`File downloaded to: ${destination}`);
+    try {
+      return await this.cache.lookup(url, await this.fetchExpectedSha256(url));
+    } catch (error) {
+      this.logger.warn(`Failed to read download cache ${this.cache.dir}: ${error}`);
+      return undefined;
+    }
+  }
+
+  private async storeInCache(
+    url: string,
+    filePath: string,
+    sha256: string
+  ): Promise<void> {
+    if (!this.cache) {
+      return;
+    }
+
+    try {
+      await this.cache.store(url, filePath, sha256);
+    } catch (error) {
+      this.logger.warn(`Failed to write download cache ${this.cache.dir}: ${error}`);
+    }
+  }
+
+  private fetchExpectedSha256(downloadUrl: string): Promise<string | undefined> {
+    let request = this.expectedSha256Requests.get(downloadUrl);
+    if (!request) {
+      request = this.requestExpectedSha256(downloadUrl);
+      this.expectedSha256Requests.set(downloadUrl, request);
+      request.catch(() => this.expectedSha256Requests.delete(downloadUrl));
+    }
+    return request;
+  }
+
+  private async requestExpectedSha256(
+    downloadUrl: string
+  ): Promise<string | undefined> {
+    if (this.options.expectedSha256) {
+      return this.options.expectedSha256;
+    }
+
+    if (this.lockEntry?.sha256) {
+      return this.lockEntry.sha256;
+    }
+
+    const source = this.config.checksum;
+    if (!source) {
+      return undefined;
+    }
+
+    const checksumUrl = resolveChecksumUrl(source, downloadUrl);
+    const assetName = getAssetNameFromUrl(downloadUrl);
+    this.logger.debug(`Fetching checksum: ${checksumUrl}`);
+
+    let content: string;
+    try {
+      content = await this.fetchText(checksumUrl);
+    } catch (error) {
+      // A cached archive was verified when it was stored, so its hash stands in offline
+      const cachedSha256 = this.options.offline
+        ? await this.cache?.getRecordedSha256(downloadUrl).catch(() => undefined)
+        : undefined;
+      if (cachedSha256) {
+        this.logger.debug(`Using the sha256 recorded in the download cache for ${assetName}`);
+        return cachedSha256;
+      }
+      if (this.options.offline && this.options.archivePath) {
+        const action = `verify ${this.options.archivePath} without a checksum`;
+        throw new OfflineError(
+          `Offline mode: the checksum for ${assetName} is not available, refusing to ${action}. Pass expectedSha256 or pin it in a lockfile.`,
+          action
+        );
+      }
+
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new DownloadError(
+        `Failed to fetch checksum for ${assetName} from ${checksumUrl}: ${reason}`,
+        checksumUrl,
+        error
+      );
+    }
+
+    const checksum = findChecksum(content, assetName);
+    if (!checksum) {
+      throw new DownloadError(`Checksum for ${assetName} not found in ${checksumUrl}`, checksumUrl);
+    }
+
+    return checksum;
+  }
+
+  private async verifyChecksum(
+    downloadUrl: string,
+    filePath: string
+  ): Promise<string> {
+    this.emit({ phase: "verify", subject: "checksum" });
+    const expectedSha256 = await this.fetchExpectedSha256(downloadUrl);
+    const actualSha256 = await computeFileSha256(filePath);
+
+    if (!expectedSha256) {
+      this.logger.warn(
+        `No checksum source configured for ${this.runtimeInfo.type}, skipping verification (sha256: ${actualSha256})`
+      );
+      return actualSha256;
+    }
+
+    if (actualSha256 !== expectedSha256) {
+      await fs.remove(filePath);
+      throw new ChecksumMismatchError(
+        `Checksum mismatch for ${getAssetNameFromUrl(downloadUrl)}: expected sha256 ${expectedSha256}, got ${actualSha256}`,
+        expectedSha256,
+        actualSha256
+      );
+    }
+
+    this.logger.info(`Checksum verified: sha256 ${actualSha256}`);
+    return actualSha256;
   }
 
   private getProxyConfigForUrl(url: string): ProxyConfig | undefined {
@@ -944,234 +1920,499 @@ export class RuntimeInjector {
     filePath: string,
     destination: string
   ): Promise<void> {
-    console.log(`Extracting: ${filePath}`);
+    this.logger.info(`Extracting: ${filePath}`);
     await fs.ensureDir(destination);
     await tar.extract({
       file: filePath,
       cwd: destination,
     });
-    console.log(`Files extracted to: ${destination}`);
+    this.logger.debug(`Files extracted to: ${destination}`);
   }
 
   private async extractZip(
     filePath: string,
     destination: string
   ): Promise<void> {
-    console.log(`Extracting: ${filePath}`);
-    await fs.ensureDir(destination);
+    this.logger.info(`Extracting: ${filePath}`);
+    await extractZipFile(filePath, destination, this.logger);
+    this.logger.debug(`ZIP file extracted to: ${destination}`);
+  }
 
+  /** Extracts a fetched archive and lays out its runtime files in `destDir` */
+  private async extractArchive(
+    archive: FetchedArchive,
+    extractedDir: string,
+    destDir: string
+  ): Promise<void> {
+    await fs.ensureDir(extractedDir);
+    this.emit({ phase: "extract", archive: archive.downloadPath! });
     try {
-      if (process.platform === "win32") {
-        await execAsync(
-          `powershell -command "Expand-Archive -Path '${filePath}' -DestinationPath '${destination}' -Force"`
-        );
+      if (archive.fileExtension === "zip") {
+        await this.extractZip(archive.downloadPath!, extractedDir);
       } else {
-        await execAsync(`unzip -o "${filePath}" -d "${destination}"`);
+        await this.extractTarGz(archive.downloadPath!, extractedDir);
+      }
+
+      // Use runtime-specific extraction logic
+      if (this.config.extractFiles) {
+        await this.config.extractFiles(
+          extractedDir,
+          destDir,
+          this.runtimeInfo.version,
+          this.runtimeInfo.platform,
+          this.runtimeInfo.arch
+        );
       }
-      console.log(`ZIP file extracted to: ${destination}`);
     } catch (error) {
-      console.error("Extraction failed:", error);
-      throw error;
+      if (error instanceof RuntimeInjectorError) {
+        throw error;
+      }
+      const fileName = getAssetNameFromUrl(archive.downloadUrl);
+      throw new ExtractionError(
+        `Failed to extract ${fileName}: ${error instanceof Error ? error.message : String(error)}`,
+        archive.downloadPath!,
+        error
+      );
     }
   }
 
-  private async cleanupRuntime(cleanupConfig: CleanupConfig): Promise<void> {
-    const targetDir = this.runtimeInfo.targetDir;
+  /**
+   * Extracts the archive into `stagingDir` and finishes the runtime there
+   * (permissions, marker, cleanup) so `targetDir` is only touched once the
+   * whole install has succeeded.
+   */
+  private async stageInstall(
+    archives: FetchedArchive[],
+    tempDir: string,
+    stagingDir: string
+  ): Promise<CleanupReport | undefined> {
+    await fs.ensureDir(stagingDir);
+
+    if (archives.length === 1) {
+      await this.extractArchive(archives[0], path.join(tempDir, "extracted"), stagingDir);
+    } else {
+      const archDirs: Record<string, string> = {};
+      for (const archive of archives) {
+        const arch = archive.injector.runtimeInfo.arch;
+        archDirs[arch] = path.join(tempDir, `install-${arch}`);
+        await fs.ensureDir(archDirs[arch]);
+        await archive.injector.extractArchive(
+          archive,
+          path.join(tempDir, `extracted-${arch}`),
+          archDirs[arch]
+        );
+      }
 
-    if (
-      this.runtimeInfo.platform === "darwin" ||
-      this.runtimeInfo.platform === "linux"
-    ) {
-      console.log(
-        "Cleaning up for macOS/Linux: Removing share and include directories."
+      const merged = await mergeUniversalDirs(
+        archDirs.x64,
+        archDirs.arm64,
+        stagingDir,
+        this.logger
       );
-      const shareDir = path.join(targetDir, "share");
-      const includeDir = path.join(targetDir, "include");
+      this.logger.info(`Merged ${merged} Mach-O binaries into universal binaries`);
+    }
+
+    // Set executable permissions for non-Windows platforms
+    if (this.runtimeInfo.platform !== "win32") {
+      const execPath = this.config.getExecutablePath(
+        stagingDir,
+        this.runtimeInfo.platform
+      );
+      if (await fs.pathExists(execPath)) {
+        await fs.chmod(execPath, 0o755);
+      }
 
-      try {
-        if (await fs.pathExists(shareDir)) {
-          await fs.remove(shareDir);
-          console.log(`Removed directory: ${shareDir}`);
+      // For uv, also set permissions for uvx
+      if (this.runtimeInfo.type === "uv") {
+        const uvxPath = path.join(stagingDir, "uvx");
+        if (await fs.pathExists(uvxPath)) {
+          await fs.chmod(uvxPath, 0o755);
         }
-        if (await fs.pathExists(includeDir)) {
-          await fs.remove(includeDir);
-          console.log(`Removed directory: ${includeDir}`);
+      }
+
+      // For Node.js, set permissions for all binaries
+      if (this.runtimeInfo.type === "node") {
+        const binDir = path.join(stagingDir, "bin");
+        if (await fs.pathExists(binDir)) {
+          const binFiles = await fs.readdir(binDir);
+          for (const file of binFiles) {
+            const filePath = path.join(binDir, file);
+            const stats = await fs.stat(filePath);
+            if (stats.isFile()) {
+              await fs.chmod(filePath, 0o755);
+            }
+          }
         }
-      } catch (error) {
-        console.error(`Error during directory removal: ${error}`);
       }
-    } else {
-      const {
-        removeDocs = true,
-        removeDevFiles = true,
-        removeSourceMaps = true,
-        customRules = [],
-      } = cleanupConfig;
-
-      const patterns = [
-        ...(removeDocs
-          ? [
-              "**/*.md",
-              "**/docs/**",
-              "**/doc/**",
-              "share/doc/**",
-              "share/man/**",
-            ]
-          : []),
-        ...(removeDevFiles
-          ? ["**/*.h", "**/*.cc", "**/*.cpp", "**/*.c", "include/**"]
-          : []),
-        ...(removeSourceMaps ? ["**/*.map"] : []),
-        ...customRules.map((rule: CleanupRule) => rule.pattern),
-      ];
-
-      for (const pattern of patterns) {
-        console.log(`Cleaning up based on pattern: ${pattern}`);
-        try {
-          const files = await glob(pattern, {
-            cwd: targetDir,
-            absolute: true,
-            nodir: true,
-          });
-          console.log(
-            `Found ${files.length} files/items for pattern ${pattern}`
-          );
-          for (const file of files) {
-            if (await fs.pathExists(file)) {
-              await fs.remove(file);
+
+      // For Python, set permissions for all files in bin directory
+      if (this.runtimeInfo.type === "python") {
+        const binDir = path.join(stagingDir, "bin");
+        if (await fs.pathExists(binDir)) {
+          const binFiles = await fs.readdir(binDir);
+          for (const file of binFiles) {
+            const filePath = path.join(binDir, file);
+            const stats = await fs.stat(filePath);
+            if (stats.isFile()) {
+              await fs.chmod(filePath, 0o755);
             }
           }
-        } catch (error) {
-          console.error(`Error cleaning up pattern ${pattern}: ${error}`);
         }
       }
     }
-  }
-
-  public async inject(): Promise<void> {
-    try {
-      await this.resolveRtkVersion();
 
-      console.log(
-        `Checking ${this.runtimeInfo.type} ${this.runtimeInfo.version} for ${this.runtimeInfo.platform}-${this.runtimeInfo.arch}`
+    const marker: InstallMarker = {
+      type: this.runtimeInfo.type,
+      version: this.runtimeInfo.version,
+      platform: this.runtimeInfo.platform,
+      arch: this.runtimeInfo.arch,
+      sources: archives.map((archive) => ({
+        arch: archive.injector.runtimeInfo.arch,
+        url: archive.upstreamUrl,
+        sha256: archive.sha256,
+      })),
+      cleanup: this.options.cleanup,
+    };
+    if (this.options.pythonPackages) {
+      marker.pythonPackages = await this.provisionPythonPackages(stagingDir);
+    }
+    // Installed before cleanup so the cleanup rules trim these packages too
+    if (this.options.npmPackages) {
+      marker.npmPackages = await this.provisionNpmPackages(stagingDir);
+    }
+    let cleanupReport: CleanupReport | undefined;
+    if (this.options.cleanup) {
+      const cleanupConfig =
+        typeof this.options.cleanup === "boolean" ? {} : this.options.cleanup;
+      this.emit({ phase: "cleanup", dryRun: cleanupConfig.dryRun ?? false });
+      cleanupReport = await applyCleanupRules(
+        stagingDir,
+        getCleanupRules(
+          this.runtimeInfo.type,
+          this.runtimeInfo.platform,
+          cleanupConfig,
+          this.config.cleanupProfiles
+        ),
+        cleanupConfig.dryRun,
+        this.logger
       );
+    }
 
-      await fs.ensureDir(this.runtimeInfo.targetDir);
-
-      if (await this.isAlreadyInstalled()) {
-        console.log(
-          `${this.runtimeInfo.type} already installed, skipping download`
-        );
-        return;
-      }
-
-      const downloadUrl = this.config.getDownloadUrl(
-        this.runtimeInfo.version,
+    // Listed after cleanup and before the marker exists, so the marker lists itself out
+    marker.files = await getInstalledFiles(stagingDir);
+    marker.installedAt = new Date().toISOString();
+    await writeInstallMarker(
+      getInstallMarkerPath(
+        stagingDir,
+        this.runtimeInfo.type,
         this.runtimeInfo.platform,
         this.runtimeInfo.arch
-      );
+      ),
+      marker
+    );
+    return cleanupReport;
+  }
 
-      const fileExtension = this.config.getFileExtension(
-        this.runtimeInfo.platform,
-        this.runtimeInfo.arch
-      );
-      const fileName = `${this.runtimeInfo.type}-${this.runtimeInfo.version}.${fileExtension}`;
+  /**
+   * Builds the requested virtualenv and packages inside the staged runtime,
+   * then points the paths the installers baked in at the final `targetDir`.
+   */
+  private async provisionPythonPackages(
+    stagingDir: string
+  ): Promise<PythonPackagesRecord> {
+    const pythonPackages = this.options.pythonPackages!;
+    if (!pythonPackages.findLinks) {
+      this.assertOnline("install Python packages from the package index");
+    }
 
-      const tempDir = path.join(os.tmpdir(), "tiny-runtime-injector-temp");
-      const downloadPath = path.join(tempDir, fileName);
-      await fs.ensureDir(tempDir);
+    this.logger.info(`Installing Python packages into ${this.runtimeInfo.type} runtime`);
+    const record = await installPythonPackages(
+      stagingDir,
+      this.config.getExecutablePath(stagingDir, this.runtimeInfo.platform),
+      this.runtimeInfo.platform,
+      pythonPackages,
+      this.getInstallerEnv(),
+      this.logger
+    );
 
-      await this.downloadFile(downloadUrl, downloadPath);
-      await fs.emptyDir(this.runtimeInfo.targetDir);
+    await relocatePythonPaths(
+      getRelocatablePythonPaths(stagingDir, record, this.runtimeInfo.platform),
+      stagingDir,
+      path.resolve(this.runtimeInfo.targetDir)
+    );
+    return record;
+  }
 
-      const extractedDir = path.join(tempDir, "extracted");
-      await fs.ensureDir(extractedDir);
+  /** Installs the requested global packages with the staged runtime's own npm */
+  private async provisionNpmPackages(stagingDir: string): Promise<NpmPackagesRecord> {
+    const npmPackages = this.options.npmPackages!;
+    if (!npmPackages.tarballDir) {
+      this.assertOnline("install npm packages from the registry");
+    }
 
-      if (fileExtension === "zip") {
-        await this.extractZip(downloadPath, extractedDir);
-      } else {
-        await this.extractTarGz(downloadPath, extractedDir);
+    this.logger.info(`Installing npm packages: ${npmPackages.packages.join(", ")}`);
+    return installNpmPackages(
+      stagingDir,
+      this.config.getExecutablePath(stagingDir, this.runtimeInfo.platform),
+      this.runtimeInfo.platform,
+      npmPackages,
+      this.options.offline ?? false,
+      this.getInstallerEnv(),
+      this.logger
+    );
+  }
+
+  /** Environment for package installers, carrying over the proxy settings */
+  private getInstallerEnv(): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = { ...process.env };
+    for (const key of ["httpProxy", "httpsProxy", "noProxy"] as const) {
+      const value = this.getProxyOption(key);
+      if (value) {
+        for (const envKey of PROXY_ENV_KEYS[key]) {
+          env[envKey] = value;
+        }
       }
+    }
+    return env;
+  }
 
-      // Use runtime-specific extraction logic
-      if (this.config.extractFiles) {
-        await this.config.extractFiles(
-          extractedDir,
-          this.runtimeInfo.targetDir,
-          this.runtimeInfo.version,
-          this.runtimeInfo.platform,
-          this.runtimeInfo.arch
+  /**
+   * Replaces `targetDir` with the staged install using renames. The previous
+   * runtime is moved aside first and restored if the swap fails.
+   */
+  private async swapIntoTarget(stagingDir: string): Promise<void> {
+    const targetDir = this.runtimeInfo.targetDir;
+    const backupDir = `${targetDir}.previous-${Date.now()}`;
+    const hasPrevious = await fs.pathExists(targetDir);
+
+    if (hasPrevious) {
+      await fs.rename(targetDir, backupDir);
+    }
+
+    try {
+      await fs.rename(stagingDir, targetDir);
+    } catch (error) {
+      if (hasPrevious) {
+        await fs.rename(backupDir, targetDir);
+      }
+      throw error;
+    }
+
+    if (hasPrevious) {
+      await fs.remove(backupDir).catch((error) => {
+        this.logger.warn(`Failed to remove previous runtime ${backupDir}: ${error}`);
+      });
+    }
+  }
+
+  /** Downloads (or copies) and verifies this injector's archive into `tempDir` */
+  private async fetchArchive(archive: FetchedArchive, tempDir: string): Promise<void> {
+    const fileExtension = this.config.getFileExtension(
+      this.runtimeInfo.platform,
+      this.runtimeInfo.arch
+    );
+    const fileName = `${this.runtimeInfo.type}-${this.runtimeInfo.version}-${this.runtimeInfo.arch}.${fileExtension}`;
+    const downloadPath = path.join(tempDir, fileName);
+
+    if (this.options.archivePath) {
+      if (!(await fs.pathExists(this.options.archivePath))) {
+        throw new ArchiveNotFoundError(
+          `Local archive does not exist: ${this.options.archivePath}`,
+          this.options.archivePath
         );
       }
+      this.logger.info(`Using local archive: ${this.options.archivePath}`);
+      await this.copyArchive(
+        archive.downloadUrl,
+        this.options.archivePath,
+        downloadPath,
+        "archive"
+      );
+    } else {
+      await this.downloadFile(archive.downloadUrl, downloadPath);
+    }
+    const sha256 = await this.verifyChecksum(archive.downloadUrl, downloadPath);
+    if (!this.options.archivePath) {
+      await this.storeInCache(archive.downloadUrl, downloadPath, sha256);
+    }
 
-      // Set executable permissions for non-Windows platforms
-      if (this.runtimeInfo.platform !== "win32") {
-        const execPath = this.runtimeInfo.executablePath;
-        if (await fs.pathExists(execPath)) {
-          await fs.chmod(execPath, 0o755);
-        }
+    archive.downloadPath = downloadPath;
+    archive.fileExtension = fileExtension;
+    archive.sha256 = sha256;
+  }
 
-        // For uv, also set permissions for uvx
-        if (this.runtimeInfo.type === "uv") {
-          const uvxPath = path.join(this.runtimeInfo.targetDir, "uvx");
-          if (await fs.pathExists(uvxPath)) {
-            await fs.chmod(uvxPath, 0o755);
-          }
-        }
+  public async inject(): Promise<InjectResult> {
+    let tempDir: string | undefined;
+    let stagingDir: string | undefined;
 
-        // For Node.js, set permissions for all binaries
-        if (this.runtimeInfo.type === "node") {
-          const binDir = path.join(this.runtimeInfo.targetDir, "bin");
-          if (await fs.pathExists(binDir)) {
-            const binFiles = await fs.readdir(binDir);
-            for (const file of binFiles) {
-              const filePath = path.join(binDir, file);
-              const stats = await fs.stat(filePath);
-              if (stats.isFile()) {
-                await fs.chmod(filePath, 0o755);
-              }
-            }
-          }
+    try {
+      this.emit({ phase: "resolve", requestedVersion: this.requestedVersion });
+      const parts = this.universalParts ?? [this];
+      for (const part of parts) {
+        await part.resolveVersionFromLockfile();
+      }
+      if (this.universalParts) {
+        const versions = new Set(parts.map((part) => part.runtimeInfo.version));
+        if (versions.size > 1) {
+          throw new VersionNotFoundError(
+            `${this.runtimeInfo.type} "${this.requestedVersion}" resolves to different versions per architecture: ${parts.map((part) => `${part.runtimeInfo.arch} ${part.runtimeInfo.version}`).join(", ")}`,
+            this.runtimeInfo.type,
+            this.requestedVersion
+          );
         }
+        this.updateResolvedVersion(parts[0].runtimeInfo.version);
+      }
+
+      this.logger.info(
+        `Checking ${this.runtimeInfo.type} ${this.runtimeInfo.version} for ${this.runtimeInfo.platform}-${this.runtimeInfo.arch}`
+      );
+
+      const archives: FetchedArchive[] = parts.map((part) => ({
+        injector: part,
+        // The lockfile records the upstream URL so mirrors don't count as deviations
+        upstreamUrl: getUpstreamDownloadUrl(
+          part.config,
+          part.runtimeInfo.version,
+          part.runtimeInfo.platform,
+          part.runtimeInfo.arch
+        ),
+        downloadUrl: part.getDownloadUrl(),
+      }));
+      for (const archive of archives) {
+        archive.injector.assertMatchesLockfile(archive.upstreamUrl);
+      }
+
+      const packagesOption = this.options.pythonPackages
+        ? "pythonPackages"
+        : this.options.npmPackages
+          ? "npmPackages"
+          : undefined;
+      if (packagesOption && !this.isHostTarget()) {
+        throw new ConfigError(
+          `${packagesOption} requires running the injected ${this.runtimeInfo.type}, which is not possible for ${this.runtimeInfo.platform}-${this.runtimeInfo.arch} on ${process.platform}-${process.arch}`
+        );
+      }
 
-        // For Python, set permissions for all files in bin directory
-        if (this.runtimeInfo.type === "python") {
-          const binDir = path.join(this.runtimeInfo.targetDir, "bin");
-          if (await fs.pathExists(binDir)) {
-            const binFiles = await fs.readdir(binDir);
-            for (const file of binFiles) {
-              const filePath = path.join(binDir, file);
-              const stats = await fs.stat(filePath);
-              if (stats.isFile()) {
-                await fs.chmod(filePath, 0o755);
-              }
+      const dryRun =
+        typeof this.options.cleanup === "object" && this.options.cleanup.dryRun === true;
+      if (!dryRun) {
+        this.emit({ phase: "verify", subject: "install" });
+        if (await this.isAlreadyInstalled()) {
+          this.logger.info(
+            `${this.runtimeInfo.type} already installed, skipping download`
+          );
+          const marker = await readInstallMarker(
+            getInstallMarkerPath(
+              this.runtimeInfo.targetDir,
+              this.runtimeInfo.type,
+              this.runtimeInfo.platform,
+              this.runtimeInfo.arch
+            )
+          );
+          for (const { injector, upstreamUrl, downloadUrl } of archives) {
+            if (injector.lockfilePath && !injector.options.frozen && !injector.lockEntry) {
+              // The install record keeps the archive hash; only older records need a lookup
+              const source = marker?.sources?.find(
+                (entry) => entry.arch === injector.runtimeInfo.arch && entry.url === upstreamUrl
+              );
+              await injector.writeLockEntry(
+                upstreamUrl,
+                source ? source.sha256 : await injector.fetchExpectedSha256(downloadUrl)
+              );
             }
           }
+          this.emit({ phase: "done", status: "skipped" });
+          return { ...this.runtimeInfo, status: "skipped" };
         }
       }
 
-      const markerFile = path.join(
-        this.runtimeInfo.targetDir,
-        `${this.runtimeInfo.type}_${this.runtimeInfo.platform}_${this.runtimeInfo.arch}`
+      // Each install gets its own temp dir so parallel installs don't collide
+      tempDir = await fs.mkdtemp(
+        path.join(os.tmpdir(), "tiny-runtime-injector-")
       );
-      await fs.writeFile(markerFile, this.runtimeInfo.version);
-
-      console.log(this.options.cleanup);
-      if (this.options.cleanup && this.runtimeInfo.type === "node") {
-        const cleanupConfig =
-          typeof this.options.cleanup === "boolean"
-            ? { removeDocs: true, removeDevFiles: true, removeSourceMaps: true }
-            : this.options.cleanup;
-        await this.cleanupRuntime(cleanupConfig);
+      for (const archive of archives) {
+        await archive.injector.fetchArchive(archive, tempDir);
+      }
+
+      // Stage next to targetDir so the final swap is a same-filesystem rename
+      const targetDir = path.resolve(this.runtimeInfo.targetDir);
+      await fs.ensureDir(path.dirname(targetDir));
+      stagingDir = await fs.mkdtemp(`${targetDir}.staging-`);
+      // mkdtemp creates 0700; the staged dir becomes the runtime dir, which other users may run
+      await fs.chmod(stagingDir, 0o777 & ~process.umask());
+
+      const cleanupReport = await this.stageInstall(archives, tempDir, stagingDir);
+      if (dryRun) {
+        // The staged runtime is discarded in `finally`; targetDir stays untouched
+        this.logger.info(
+          `Cleanup dry run for ${this.runtimeInfo.type} ${this.runtimeInfo.version}: ${cleanupReport!.bytesSaved} of ${cleanupReport!.sizeBefore} bytes would be removed`
+        );
+        this.emit({ phase: "done", status: "dry-run" });
+        return { ...this.runtimeInfo, status: "dry-run", cleanup: cleanupReport };
       }
 
-      await fs.remove(tempDir);
-      console.log(
+      await this.swapIntoTarget(stagingDir);
+      stagingDir = undefined;
+
+      for (const archive of archives) {
+        await archive.injector.writeLockEntry(archive.upstreamUrl, archive.sha256);
+      }
+      this.logger.info(
         `${this.runtimeInfo.type} ${this.runtimeInfo.version} successfully installed to ${this.runtimeInfo.targetDir}`
       );
+      this.emit({ phase: "done", status: "installed" });
+      return { ...this.runtimeInfo, status: "installed", cleanup: cleanupReport };
     } catch (error) {
-      console.error("Installation failed:", error);
+      this.logger.error("Installation failed:", error);
       throw error;
+    } finally {
+      if (stagingDir) {
+        await fs.remove(stagingDir).catch(() => undefined);
+      }
+      if (tempDir) {
+        await fs.remove(tempDir).catch(() => undefined);
+      }
     }
   }
 }
+
+/** Lists the published versions of a runtime type without installing anything */
+export function listVersions(
+  options: ListVersionsOptions = {}
+): Promise<RuntimeVersionInfo[]> {
+  const { range, limit, ...runtimeOptions } = options;
+  const injector = new RuntimeInjector({
+    ...runtimeOptions,
+    // Only needed to satisfy RuntimeOptions; listing never touches the filesystem
+    targetDir: path.resolve("runtime", runtimeOptions.type ?? "node"),
+  });
+  return injector.listVersions({ range, limit });
+}
+
+/** Checks an installed runtime against its install record without installing anything */
+export function verifyInstall(options: RuntimeOptions): Promise<InstallVerification> {
+  return new RuntimeInjector(options).verify();
+}
+
+export { getManifestLockfilePath, injectAll, loadManifest } from "./manifest.js";
+export { LOCKFILE_NAME } from "./lockfile.js";
+export { getRuntimeEnv, mergeRuntimeEnv, resolveRuntime } from "./resolve.js";
+export { runWith } from "./run.js";
+export { DEFAULT_DOWNLOAD_OPTIONS } from "./download.js";
+export * from "./errors.js";
+export { LOG_LEVELS, consoleLogger, createConsoleLogger } from "./logger.js";
+export {
+  defineRuntime,
+  getRuntimeTypes,
+  isRuntimeRegistered,
+  registerRuntime,
+  registerRuntimeDefinitions,
+  unregisterRuntime,
+} from "./registry.js";
+export {
+  CACHE_DIR_ENV_KEY,
+  DownloadCache,
+  getDefaultCacheDir,
+  resolveCacheDir,
+} from "./cache.js";
+export * from "./types.js";
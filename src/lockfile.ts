@@ -0,0 +1,74 @@
+import path from "path";
+import fs from "fs-extra";
+import { LockfileError } from "./errors.js";
+import { Lockfile, LockfileEntry } from "./types.js";
+
+export const LOCKFILE_NAME = "runtimes.lock.json";
+const LOCKFILE_VERSION = 1;
+
+// Serializes writes per lockfile so parallel manifest installs don't clobber each other
+const pendingWrites = new Map<string, Promise<void>>();
+
+export function resolveLockfilePath(
+  lockfile: string | boolean | undefined,
+  targetDir: string
+): string | undefined {
+  if (!lockfile) {
+    return undefined;
+  }
+
+  if (lockfile === true) {
+    return path.join(path.dirname(path.resolve(targetDir)), LOCKFILE_NAME);
+  }
+
+  return path.resolve(lockfile);
+}
+
+export function getLockEntryKey(
+  type: string,
+  platform: string,
+  arch: string
+): string {
+  return `${type}_${platform}_${arch}`;
+}
+
+export async function readLockfile(lockfilePath: string): Promise<Lockfile> {
+  if (!(await fs.pathExists(lockfilePath))) {
+    return { lockfileVersion: LOCKFILE_VERSION, runtimes: {} };
+  }
+
+  const lockfile = (await fs.readJson(lockfilePath)) as Lockfile;
+  if (lockfile.lockfileVersion !== LOCKFILE_VERSION || !lockfile.runtimes) {
+    throw new LockfileError(
+      `Unsupported lockfile format in ${lockfilePath} (expected lockfileVersion ${LOCKFILE_VERSION})`,
+      lockfilePath
+    );
+  }
+
+  return lockfile;
+}
+
+export function updateLockfile(
+  lockfilePath: string,
+  entry: LockfileEntry
+): Promise<void> {
+  const previous = pendingWrites.get(lockfilePath) ?? Promise.resolve();
+  const write = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const lockfile = await readLockfile(lockfilePath);
+      lockfile.runtimes[getLockEntryKey(entry.type, entry.platform, entry.arch)] =
+        entry;
+      lockfile.runtimes = Object.fromEntries(
+        Object.entries(lockfile.runtimes).sort(([a], [b]) => a.localeCompare(b))
+      );
+      await fs.outputJson(lockfilePath, lockfile, { spaces: 2 });
+    });
+
+  pendingWrites.set(lockfilePath, write);
+  return write.finally(() => {
+    if (pendingWrites.get(lockfilePath) === write) {
+      pendingWrites.delete(lockfilePath);
+    }
+  });
+}
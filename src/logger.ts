@@ -0,0 +1,24 @@
+import { ConfigError } from "./errors.js";
+import { Logger, LogLevel } from "./types.js";
+
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+/** Logs to the console, dropping messages below `level` */
+export function createConsoleLogger(level: LogLevel = "info"): Logger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  if (threshold < 0) {
+    throw new ConfigError(`Unknown log level "${level}". Expected one of: ${LOG_LEVELS.join(", ")}`);
+  }
+
+  const ignore = () => undefined;
+  const enabled = (messageLevel: LogLevel) => LOG_LEVELS.indexOf(messageLevel) >= threshold;
+  return {
+    debug: enabled("debug") ? (...args) => console.debug(...args) : ignore,
+    info: enabled("info") ? (...args) => console.log(...args) : ignore,
+    warn: enabled("warn") ? (...args) => console.warn(...args) : ignore,
+    error: enabled("error") ? (...args) => console.error(...args) : ignore,
+  };
+}
+
+/** What the injector and its helpers log to when no logger is given */
+export const consoleLogger = createConsoleLogger();
@@ -0,0 +1,216 @@
+import path from "path";
+import fs from "fs-extra";
+import { computeFileSha256 } from "./checksum.js";
+import { consoleLogger } from "./logger.js";
+import { Logger } from "./types.js";
+
+const MH_MAGIC = 0xfeedface;
+const MH_MAGIC_64 = 0xfeedfacf;
+const FAT_MAGIC = 0xcafebabe;
+const FAT_ARCH_SIZE = 20;
+// Java class files share FAT_MAGIC; real fat headers list only a handful of slices
+const MAX_FAT_ARCHS = 30;
+
+const CPU_TYPE_ARM64 = 0x0100000c;
+
+/** The architectures merged by `arch: "universal"` */
+export const UNIVERSAL_ARCHS = ["x64", "arm64"] as const;
+
+export interface MachOSlice {
+  cputype: number;
+  cpusubtype: number;
+  /** Power-of-two alignment of the slice inside a fat file */
+  align: number;
+  data: Buffer;
+}
+
+/**
+ * Splits a Mach-O file into its architecture slices. A thin binary yields one
+ * slice; anything that isn't Mach-O yields undefined.
+ */
+export function getMachOSlices(buffer: Buffer): MachOSlice[] | undefined {
+  if (buffer.length < 8) {
+    return undefined;
+  }
+
+  const thinMagic = buffer.readUInt32LE(0);
+  if (thinMagic === MH_MAGIC || thinMagic === MH_MAGIC_64) {
+    const cputype = buffer.readInt32LE(4);
+    return [
+      {
+        cputype,
+        cpusubtype: buffer.readInt32LE(8),
+        // Matches what lipo picks for Apple's 16K (arm64) and 4K (x86_64) pages
+        align: cputype === CPU_TYPE_ARM64 ? 14 : 12,
+        data: buffer,
+      },
+    ];
+  }
+
+  if (buffer.readUInt32BE(0) !== FAT_MAGIC) {
+    return undefined;
+  }
+
+  const count = buffer.readUInt32BE(4);
+  if (count === 0 || count > MAX_FAT_ARCHS || buffer.length < 8 + count * FAT_ARCH_SIZE) {
+    return undefined;
+  }
+
+  const slices: MachOSlice[] = [];
+  for (let index = 0; index < count; index++) {
+    const entry = 8 + index * FAT_ARCH_SIZE;
+    const offset = buffer.readUInt32BE(entry + 8);
+    const size = buffer.readUInt32BE(entry + 12);
+    if (offset + size > buffer.length) {
+      return undefined;
+    }
+    slices.push({
+      cputype: buffer.readInt32BE(entry),
+      cpusubtype: buffer.readInt32BE(entry + 4),
+      align: buffer.readUInt32BE(entry + 16),
+      data: buffer.subarray(offset, offset + size),
+    });
+  }
+  return slices;
+}
+
+/** Writes slices into a fat (universal) Mach-O file, the format `lipo -create` produces */
+export function createFatBinary(slices: MachOSlice[]): Buffer {
+  const header = Buffer.alloc(8 + slices.length * FAT_ARCH_SIZE);
+  header.writeUInt32BE(FAT_MAGIC, 0);
+  header.writeUInt32BE(slices.length, 4);
+
+  const chunks: Buffer[] = [header];
+  let offset = header.length;
+  slices.forEach((slice, index) => {
+    const alignment = 2 ** slice.align;
+    const padding = (alignment - (offset % alignment)) % alignment;
+    if (padding) {
+      chunks.push(Buffer.alloc(padding));
+      offset += padding;
+    }
+
+    const entry = 8 + index * FAT_ARCH_SIZE;
+    header.writeInt32BE(slice.cputype, entry);
+    header.writeInt32BE(slice.cpusubtype, entry + 4);
+    header.writeUInt32BE(offset, entry + 8);
+    header.writeUInt32BE(slice.data.length, entry + 12);
+    header.writeUInt32BE(slice.align, entry + 16);
+
+    chunks.push(slice.data);
+    offset += slice.data.length;
+  });
+
+  return Buffer.concat(chunks);
+}
+
+/** Combines two Mach-O files, keeping the first slice seen for each CPU type */
+export function mergeMachO(first: MachOSlice[], second: MachOSlice[]): Buffer {
+  const slices: MachOSlice[] = [];
+  for (const slice of [...first, ...second]) {
+    if (
+      !slices.some(
+        (existing) =>
+          existing.cputype === slice.cputype && existing.cpusubtype === slice.cpusubtype
+      )
+    ) {
+      slices.push(slice);
+    }
+  }
+  return slices.length === 1 ? slices[0].data : createFatBinary(slices);
+}
+
+/** Whether a file starts like a Mach-O file; getMachOSlices checks the rest */
+async function hasMachOMagic(filePath: string): Promise<boolean> {
+  const handle = await fs.promises.open(filePath, "r");
+  const header = Buffer.alloc(8);
+  try {
+    if ((await handle.read(header, 0, header.length, 0)).bytesRead < header.length) {
+      return false;
+    }
+  } finally {
+    await handle.close();
+  }
+
+  const thinMagic = header.readUInt32LE(0);
+  if (thinMagic === MH_MAGIC || thinMagic === MH_MAGIC_64) {
+    return true;
+  }
+  const count = header.readUInt32BE(4);
+  return header.readUInt32BE(0) === FAT_MAGIC && count > 0 && count <= MAX_FAT_ARCHS;
+}
+
+/** Compares files by streamed hash, without loading them into memory */
+async function hasSameContent(files: string[]): Promise<boolean> {
+  const hashes = await Promise.all(files.map((file) => computeFileSha256(file)));
+  return hashes.every((hash) => hash === hashes[0]);
+}
+
+/**
+ * Merges an x64 and an arm64 install of the same runtime into `targetDir`.
+ * Mach-O files present in both become fat binaries; everything else is copied,
+ * and files that differ between the two are taken from the arm64 tree.
+ * Returns the number of merged binaries.
+ */
+export async function mergeUniversalDirs(
+  x64Dir: string,
+  arm64Dir: string,
+  targetDir: string,
+  logger: Logger = consoleLogger,
+  relativeDir = ""
+): Promise<number> {
+  const x64Path = path.join(x64Dir, relativeDir);
+  const arm64Path = path.join(arm64Dir, relativeDir);
+  const names = new Set<string>();
+  for (const dir of [x64Path, arm64Path]) {
+    if (await fs.pathExists(dir)) {
+      for (const name of await fs.readdir(dir)) {
+        names.add(name);
+      }
+    }
+  }
+
+  await fs.ensureDir(path.join(targetDir, relativeDir));
+  let merged = 0;
+  for (const name of [...names].sort()) {
+    const relativePath = path.join(relativeDir, name);
+    const sources = [path.join(arm64Dir, relativePath), path.join(x64Dir, relativePath)];
+    const stats = await Promise.all(
+      sources.map((source) => fs.lstat(source).catch(() => undefined))
+    );
+    const [arm64Stats, x64Stats] = stats;
+    const destination = path.join(targetDir, relativePath);
+
+    if (stats.some((entry) => entry?.isDirectory())) {
+      merged += await mergeUniversalDirs(x64Dir, arm64Dir, targetDir, logger, relativePath);
+      continue;
+    }
+
+    const source = arm64Stats ? sources[0] : sources[1];
+    if (!arm64Stats?.isFile() || !x64Stats?.isFile()) {
+      await fs.copy(source, destination);
+      continue;
+    }
+
+    if (arm64Stats.size === x64Stats.size && (await hasSameContent(sources))) {
+      await fs.copy(source, destination);
+      continue;
+    }
+
+    // Only binaries to merge are read into memory; runtimes ship large data files too
+    const machO = (await Promise.all(sources.map(hasMachOMagic))).every(Boolean);
+    const [arm64Slices, x64Slices] = machO
+      ? (await Promise.all(sources.map((file) => fs.readFile(file)))).map(getMachOSlices)
+      : [];
+    if (arm64Slices && x64Slices) {
+      await fs.writeFile(destination, mergeMachO(x64Slices, arm64Slices), {
+        mode: arm64Stats.mode,
+      });
+      merged++;
+    } else {
+      logger.warn(`${relativePath} differs between x64 and arm64, keeping the arm64 copy`);
+      await fs.copy(source, destination);
+    }
+  }
+  return merged;
+}
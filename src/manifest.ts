@@ -0,0 +1,230 @@
+import path from "path";
+import fs from "fs-extra";
+import { ConfigError } from "./errors.js";
+import { RuntimeInjector } from "./index.js";
+import { getLockEntryKey, resolveLockfilePath } from "./lockfile.js";
+import { registerRuntimeDefinitions } from "./registry.js";
+import {
+  InjectAllOptions,
+  InjectAllResult,
+  InjectSummaryEntry,
+  PythonPackagesOptions,
+  RuntimeManifest,
+  RuntimeOptions,
+} from "./types.js";
+
+const DEFAULT_CONCURRENCY = 2;
+
+export function getManifestLockfilePath(manifestPath: string): string {
+  const absolutePath = path.resolve(manifestPath);
+  const baseName = path.basename(absolutePath, path.extname(absolutePath));
+  return path.join(path.dirname(absolutePath), `${baseName}.lock.json`);
+}
+
+function resolvePythonPackagePaths(
+  pythonPackages: PythonPackagesOptions,
+  baseDir: string
+): PythonPackagesOptions {
+  const resolved = { ...pythonPackages };
+  for (const key of ["requirements", "pyproject", "findLinks", "uvPath"] as const) {
+    const value = resolved[key];
+    // A bare uvPath such as "uv" is looked up on PATH
+    if (value && (key !== "uvPath" || /[\\/]/.test(value))) {
+      resolved[key] = path.resolve(baseDir, value);
+    }
+  }
+  return resolved;
+}
+
+// Mirror and cache directories may also be set in the manifest's defaults
+function resolveSharedPaths<T extends Partial<RuntimeOptions>>(options: T, baseDir: string): T {
+  return {
+    ...options,
+    ...(options.mirrorDir && { mirrorDir: path.resolve(baseDir, options.mirrorDir) }),
+    ...(typeof options.cacheDir === "string" && {
+      cacheDir: path.resolve(baseDir, options.cacheDir),
+    }),
+  };
+}
+
+/**
+ * Reads a `runtimes.json` manifest. Relative target directories, lockfile,
+ * archive, mirror, cache, npm tarball and Python requirement paths are resolved
+ * against the manifest's own directory so the file can be run from anywhere.
+ */
+export async function loadManifest(manifestPath: string): Promise<RuntimeManifest> {
+  const absolutePath = path.resolve(manifestPath);
+  if (!(await fs.pathExists(absolutePath))) {
+    throw new ConfigError(`Manifest file does not exist: ${absolutePath}`);
+  }
+
+  const manifest = (await fs.readJson(absolutePath)) as RuntimeManifest;
+  if (!manifest || !Array.isArray(manifest.runtimes)) {
+    throw new ConfigError(`Manifest ${absolutePath} must contain a "runtimes" array`);
+  }
+
+  const baseDir = path.dirname(absolutePath);
+  const lockfile =
+    manifest.lockfile === true
+      ? getManifestLockfilePath(absolutePath)
+      : typeof manifest.lockfile === "string"
+        ? path.resolve(baseDir, manifest.lockfile)
+        : manifest.lockfile;
+
+  return {
+    ...manifest,
+    lockfile,
+    defaults: manifest.defaults && resolveSharedPaths(manifest.defaults, baseDir),
+    runtimes: manifest.runtimes.map((entry, index) => {
+      if (!entry || typeof entry !== "object") {
+        throw new ConfigError(`Manifest entry ${index} must be an object`);
+      }
+
+      const type = entry.type || "node";
+      return {
+        ...resolveSharedPaths(entry, baseDir),
+        type,
+        targetDir: path.resolve(baseDir, entry.targetDir || `runtime/${type}`),
+        ...(entry.archivePath && {
+          archivePath: path.resolve(baseDir, entry.archivePath),
+        }),
+        ...(entry.npmPackages?.tarballDir && {
+          npmPackages: {
+            ...entry.npmPackages,
+            tarballDir: path.resolve(baseDir, entry.npmPackages.tarballDir),
+          },
+        }),
+        ...(entry.pythonPackages && {
+          pythonPackages: resolvePythonPackagePaths(entry.pythonPackages, baseDir),
+        }),
+      };
+    }),
+  };
+}
+
+async function runWithConcurrency<T>(
+  tasks: Array<() => Promise<T>>,
+  concurrency: number
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < tasks.length) {
+      const index = nextIndex++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+async function injectEntry(options: RuntimeOptions): Promise<InjectSummaryEntry> {
+  const startedAt = Date.now();
+  const summary: InjectSummaryEntry = {
+    type: options.type || "node",
+    version: options.version,
+    platform: options.platform,
+    arch: options.arch,
+    targetDir: options.targetDir,
+    status: "failed",
+    durationMs: 0,
+  };
+
+  try {
+    const result = await new RuntimeInjector(options).inject();
+    Object.assign(summary, {
+      version: result.version,
+      platform: result.platform,
+      arch: result.arch,
+      status: result.status,
+      cleanup: result.cleanup,
+    });
+  } catch (error) {
+    summary.error = error instanceof Error ? error : new Error(String(error));
+  }
+
+  summary.durationMs = Date.now() - startedAt;
+  return summary;
+}
+
+/**
+ * Lockfile entries are keyed by runtime, platform and arch, so two installs
+ * of the same target sharing a lockfile would overwrite each other's pin.
+ */
+function assertDistinctLockEntries(entries: RuntimeOptions[]): void {
+  const targetDirs = new Map<string, string>();
+  for (const options of entries) {
+    const lockfilePath = resolveLockfilePath(
+      options.lockfile ?? options.frozen,
+      options.targetDir
+    );
+    if (!lockfilePath) {
+      continue;
+    }
+
+    const type = options.type || "node";
+    const key = getLockEntryKey(
+      type,
+      options.platform || process.platform,
+      options.arch || process.arch
+    );
+    const lockKey = `${lockfilePath}\0${key}`;
+    const otherTargetDir = targetDirs.get(lockKey);
+    if (otherTargetDir !== undefined) {
+      throw new ConfigError(
+        `${otherTargetDir} and ${options.targetDir} both install ${key} and would share its entry in ${lockfilePath}; use a separate lockfile for one of them`
+      );
+    }
+    targetDirs.set(lockKey, options.targetDir);
+  }
+}
+
+/**
+ * Installs every runtime listed in a manifest, after registering its
+ * `runtimeDefinitions`. Failures do not stop the other installs; they are
+ * reported in the returned summary instead. Entries that would share a
+ * lockfile entry are rejected before anything is installed.
+ */
+export async function injectAll(
+  manifest: RuntimeManifest | RuntimeOptions[],
+  options: InjectAllOptions = {}
+): Promise<InjectAllResult> {
+  const resolvedManifest: RuntimeManifest = Array.isArray(manifest)
+    ? { runtimes: manifest }
+    : manifest;
+  const { runtimes } = resolvedManifest;
+  const defaults: Partial<RuntimeOptions> = {
+    ...(resolvedManifest.lockfile !== undefined && {
+      lockfile: resolvedManifest.lockfile,
+    }),
+    ...resolvedManifest.defaults,
+  };
+  const concurrency =
+    options.concurrency ?? resolvedManifest.concurrency ?? DEFAULT_CONCURRENCY;
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ConfigError(`Invalid concurrency: ${concurrency}`);
+  }
+
+  if (resolvedManifest.runtimeDefinitions) {
+    registerRuntimeDefinitions(resolvedManifest.runtimeDefinitions);
+  }
+
+  const entries = runtimes.map((entry) => ({ ...defaults, ...entry }));
+  assertDistinctLockEntries(entries);
+
+  const results = await runWithConcurrency(
+    entries.map((entry) => () => injectEntry(entry)),
+    concurrency
+  );
+
+  return {
+    results,
+    installed: results.filter((result) => result.status === "installed").length,
+    skipped: results.filter((result) => result.status === "skipped").length,
+    failed: results.filter((result) => result.status === "failed").length,
+  };
+}
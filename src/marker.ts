@@ -0,0 +1,49 @@
+import path from "path";
+import fs from "fs-extra";
+import { InstallMarker } from "./types.js";
+
+export function getInstallMarkerPath(
+  targetDir: string,
+  type: string,
+  platform: string,
+  arch: string
+): string {
+  return path.join(targetDir, `${type}_${platform}_${arch}`);
+}
+
+/**
+ * Reads an install marker. Older releases wrote the bare version string, which
+ * is still accepted; a missing or empty marker returns undefined.
+ */
+export async function readInstallMarker(
+  markerPath: string
+): Promise<InstallMarker | undefined> {
+  if (!(await fs.pathExists(markerPath))) {
+    return undefined;
+  }
+
+  const content = (await fs.readFile(markerPath, "utf8")).trim();
+  if (!content) {
+    return undefined;
+  }
+
+  if (content.startsWith("{")) {
+    try {
+      const marker = JSON.parse(content) as InstallMarker;
+      if (marker && typeof marker.version === "string") {
+        return marker;
+      }
+    } catch {
+      // Fall through to the legacy format
+    }
+  }
+
+  return { version: content };
+}
+
+export async function writeInstallMarker(
+  markerPath: string,
+  marker: InstallMarker
+): Promise<void> {
+  await fs.writeFile(markerPath, `${JSON.stringify(marker, null, 2)}\n`);
+}
@@ -0,0 +1,128 @@
+import { ConfigError } from "./errors.js";
+import { RuntimeConfig } from "./types.js";
+
+export interface DownloadUrlVariables {
+  version: string;
+  tag: string;
+  platform: string;
+  arch: string;
+  fileName: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{(version|tag|platform|arch|fileName)\}/g;
+const HAS_PLACEHOLDER_PATTERN = /\{(version|tag|platform|arch|fileName)\}/;
+
+export function getMirrorEnvKeys(type: string, config: RuntimeConfig): string[] {
+  return [
+    `TINY_RUNTIME_INJECTOR_${type.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_MIRROR`,
+    ...(config.mirrorEnvKeys ?? []),
+  ];
+}
+
+export function expandUrlTemplate(
+  template: string,
+  variables: DownloadUrlVariables
+): string {
+  return template.replace(
+    PLACEHOLDER_PATTERN,
+    (_, key: keyof DownloadUrlVariables) => variables[key]
+  );
+}
+
+export function getDownloadUrlVariables(
+  config: RuntimeConfig,
+  version: string,
+  platform: string,
+  arch: string
+): DownloadUrlVariables {
+  if (!config.getAssetName) {
+    throw new ConfigError("Runtime config does not define getAssetName");
+  }
+
+  return {
+    version,
+    tag: config.getReleaseTag ? config.getReleaseTag(version) : version,
+    platform,
+    arch,
+    fileName: config.getAssetName(version, platform, arch),
+  };
+}
+
+export function getUpstreamDownloadUrl(
+  config: RuntimeConfig,
+  version: string,
+  platform: string,
+  arch: string
+): string {
+  if (config.getDownloadUrl) {
+    return config.getDownloadUrl(version, platform, arch);
+  }
+
+  if (!config.downloadUrlTemplate) {
+    throw new ConfigError("Runtime config defines neither getDownloadUrl nor downloadUrlTemplate");
+  }
+
+  return expandUrlTemplate(
+    config.downloadUrlTemplate,
+    getDownloadUrlVariables(config, version, platform, arch)
+  );
+}
+
+/**
+ * Rewrites an upstream download URL to a mirror. A mirror containing
+ * placeholders is expanded as a full template; otherwise it replaces the base
+ * of the runtime's upstream template, keeping the upstream path layout
+ * (e.g. `https://npmmirror.com/mirrors/node/` + `v24.12.0/node-….tar.gz`).
+ */
+export function applyMirror(
+  mirror: string,
+  config: RuntimeConfig,
+  version: string,
+  platform: string,
+  arch: string
+): string {
+  if (isMirrorTemplate(mirror)) {
+    return expandUrlTemplate(
+      mirror,
+      getDownloadUrlVariables(config, version, platform, arch)
+    );
+  }
+
+  return rebaseOnMirror(
+    mirror,
+    config,
+    getUpstreamDownloadUrl(config, version, platform, arch)
+  );
+}
+
+/**
+ * Replaces the base of the runtime's upstream URL template in `url` with a
+ * mirror base, e.g. to fetch Node's `index.json` from the same mirror.
+ */
+export function rebaseOnMirror(
+  mirror: string,
+  config: RuntimeConfig,
+  url: string
+): string {
+  const template = config.downloadUrlTemplate;
+  const placeholderIndex = template ? template.indexOf("{") : -1;
+  if (!template || placeholderIndex === -1) {
+    throw new ConfigError(
+      `Mirror "${mirror}" has no placeholders and the runtime has no URL template to rebase; use a template such as "https://mirror.example.com/{version}/{fileName}"`
+    );
+  }
+
+  const upstreamBase = template.slice(0, placeholderIndex);
+  if (!url.startsWith(upstreamBase)) {
+    throw new ConfigError(
+      `Cannot rebase ${url} onto mirror "${mirror}": it does not start with ${upstreamBase}`
+    );
+  }
+
+  const mirrorBase = mirror.endsWith("/") ? mirror : `${mirror}/`;
+  return `${mirrorBase}${url.slice(upstreamBase.length)}`;
+}
+
+export function isMirrorTemplate(mirror: string): boolean {
+  return HAS_PLACEHOLDER_PATTERN.test(mirror);
+}
@@ -0,0 +1,184 @@
+import path from "path";
+import fs from "fs-extra";
+import semver from "semver";
+import { computeFileSha256 } from "./checksum.js";
+import { CommandError, ConfigError } from "./errors.js";
+import { consoleLogger } from "./logger.js";
+import { runCommand } from "./process.js";
+import {
+  Logger,
+  NpmPackagesOptions,
+  NpmPackagesRecord,
+  RuntimeCommand,
+  RuntimeEnv,
+} from "./types.js";
+
+/** npm's own entry point, or npx's, inside a Node.js distribution */
+export function getNpmCliPath(
+  runtimeDir: string,
+  platform: string,
+  name: "npm" | "npx" = "npm"
+): string {
+  return platform === "win32"
+    ? path.join(runtimeDir, "node_modules", "npm", "bin", `${name}-cli.js`)
+    : path.join(runtimeDir, "lib", "node_modules", "npm", "bin", `${name}-cli.js`);
+}
+
+/** Runs npm and npx through node, since on Windows they are .cmd shims that need a shell */
+export function getNodeCommand(
+  runtimeDir: string,
+  nodePath: string,
+  platform: string,
+  name: string | undefined
+): RuntimeCommand | undefined {
+  return name === "npm" || name === "npx"
+    ? { executable: nodePath, args: [getNpmCliPath(runtimeDir, platform, name)] }
+    : undefined;
+}
+
+/**
+ * Node's bin directory goes on PATH so npm, npx and globally installed
+ * packages resolve; NODE_PATH lets scripts require those global packages.
+ */
+export function getNodeEnv(runtimeDir: string, platform: string): RuntimeEnv {
+  return platform === "win32"
+    ? {
+        pathDirs: [runtimeDir],
+        variables: { NODE_PATH: path.join(runtimeDir, "node_modules") },
+      }
+    : {
+        pathDirs: [path.join(runtimeDir, "bin")],
+        variables: { NODE_PATH: path.join(runtimeDir, "lib", "node_modules") },
+      };
+}
+
+function parsePackageSpec(spec: string): { name: string; range?: string } {
+  const versionAt = spec.lastIndexOf("@");
+  return versionAt > 0
+    ? { name: spec.slice(0, versionAt), range: spec.slice(versionAt + 1) }
+    : { name: spec };
+}
+
+/**
+ * Finds the `npm pack` tarball for `spec` in `tarballDir`. npm names them
+ * `<name>-<version>.tgz`, with a scope flattened to `scope-name`; the newest
+ * version satisfying the spec wins.
+ */
+export async function findPackageTarball(
+  tarballDir: string,
+  spec: string
+): Promise<string> {
+  const { name, range } = parsePackageSpec(spec);
+  const prefix = `${name.replace(/^@/, "").replace("/", "-")}-`;
+
+  let best: { file: string; version: string } | undefined;
+  for (const file of await fs.readdir(tarballDir)) {
+    if (!file.startsWith(prefix) || !file.endsWith(".tgz")) {
+      continue;
+    }
+
+    const version = semver.valid(file.slice(prefix.length, -".tgz".length));
+    if (!version || (range && !semver.satisfies(version, range))) {
+      continue;
+    }
+    if (!best || semver.gt(version, best.version)) {
+      best = { file, version };
+    }
+  }
+
+  if (!best) {
+    throw new ConfigError(`No tarball for npm package "${spec}" in ${tarballDir}`);
+  }
+  return path.join(tarballDir, best.file);
+}
+
+/**
+ * Describes what `options` asks for, including the hash of every tarball
+ * used, so two equal descriptions mean the same set of packages.
+ */
+export async function describeNpmPackages(
+  options: NpmPackagesOptions
+): Promise<NpmPackagesRecord> {
+  const record: NpmPackagesRecord = { packages: [...options.packages].sort() };
+  if (options.tarballDir) {
+    record.tarballs = {};
+    for (const spec of record.packages) {
+      const tarball = await findPackageTarball(options.tarballDir, spec);
+      record.tarballs[path.basename(tarball)] = await computeFileSha256(tarball);
+    }
+  }
+  return record;
+}
+
+export function isSameNpmPackages(
+  installed: NpmPackagesRecord | undefined,
+  requested: NpmPackagesRecord
+): boolean {
+  if (!installed) {
+    return false;
+  }
+
+  const { installed: _installed, ...installedRequest } = installed;
+  return JSON.stringify(installedRequest) === JSON.stringify(requested);
+}
+
+/**
+ * Installs global packages into the Node.js runtime in `runtimeDir` using the
+ * npm it ships with, so binaries land in its own `bin` (or root on Windows).
+ */
+export async function installNpmPackages(
+  runtimeDir: string,
+  nodePath: string,
+  platform: string,
+  options: NpmPackagesOptions,
+  offline: boolean,
+  env: NodeJS.ProcessEnv,
+  logger: Logger = consoleLogger
+): Promise<NpmPackagesRecord> {
+  const npmCliPath = getNpmCliPath(runtimeDir, platform);
+  if (!(await fs.pathExists(npmCliPath))) {
+    throw new CommandError(`npm is missing from the Node.js runtime: ${npmCliPath}`, npmCliPath, []);
+  }
+
+  const record = await describeNpmPackages(options);
+  const specs = options.tarballDir
+    ? await Promise.all(
+        record.packages.map((spec) => findPackageTarball(options.tarballDir!, spec))
+      )
+    : record.packages;
+
+  const args = [
+    npmCliPath,
+    "install",
+    "--global",
+    "--prefix",
+    runtimeDir,
+    "--no-audit",
+    "--no-fund",
+    "--no-update-notifier",
+  ];
+  if (offline) {
+    args.push("--offline");
+  }
+  if (options.registry) {
+    args.push("--registry", options.registry);
+  }
+  await runCommand(nodePath, [...args, ...specs], env, logger);
+
+  const listing = await runCommand(
+    nodePath,
+    [npmCliPath, "ls", "--global", "--prefix", runtimeDir, "--depth", "0", "--json"],
+    env,
+    logger
+  );
+  const dependencies: Record<string, { version?: string }> =
+    JSON.parse(listing).dependencies ?? {};
+  record.installed = {};
+  for (const [name, info] of Object.entries(dependencies)) {
+    if (name !== "npm" && info.version) {
+      record.installed[name] = info.version;
+    }
+  }
+
+  return record;
+}
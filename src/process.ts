@@ -0,0 +1,33 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { CommandError } from "./errors.js";
+import { consoleLogger } from "./logger.js";
+import { Logger } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Runs a command without a shell and returns its stdout, failing with its stderr */
+export async function runCommand(
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv,
+  logger: Logger = consoleLogger
+): Promise<string> {
+  logger.info(`Running: ${[command, ...args].join(" ")}`);
+  try {
+    const { stdout } = await execFileAsync(command, args, {
+      env,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const reason = stderr || (error instanceof Error ? error.message : String(error));
+    throw new CommandError(
+      `Command failed: ${[command, ...args].join(" ")}\n${reason}`,
+      command,
+      args,
+      error
+    );
+  }
+}
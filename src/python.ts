@@ -0,0 +1,374 @@
+import path from "path";
+import fs from "fs-extra";
+import { computeFileSha256 } from "./checksum.js";
+import { consoleLogger } from "./logger.js";
+import { runCommand } from "./process.js";
+import {
+  Logger,
+  PythonPackagesOptions,
+  PythonPackagesRecord,
+  RuntimeCommand,
+  RuntimeEnv,
+} from "./types.js";
+
+const DEFAULT_VENV_DIR = "venv";
+// Scripts and config files that embed the interpreter path are small; skip anything larger
+const MAX_RELOCATED_FILE_SIZE = 1024 * 1024;
+
+export function getPythonInstaller(options: PythonPackagesOptions): "pip" | "uv" {
+  return options.installer ?? (options.uvPath ? "uv" : "pip");
+}
+
+function getVenvDir(options: PythonPackagesOptions): string | undefined {
+  if (options.venv === false) {
+    return undefined;
+  }
+  return typeof options.venv === "string" ? options.venv : DEFAULT_VENV_DIR;
+}
+
+export function getVenvPythonPath(venvDir: string, platform: string): string {
+  return platform === "win32"
+    ? path.join(venvDir, "Scripts", "python.exe")
+    : path.join(venvDir, "bin", "python");
+}
+
+/**
+ * Runs python from the virtualenv pythonPackages created, if any, so its
+ * packages are importable, and pip as `python -m pip`, which does not rely
+ * on the interpreter path embedded in the pip script.
+ */
+export function getPythonCommand(
+  runtimeDir: string,
+  pythonPath: string,
+  platform: string,
+  name: string | undefined,
+  record?: PythonPackagesRecord
+): RuntimeCommand | undefined {
+  const python = record?.venv
+    ? getVenvPythonPath(path.join(runtimeDir, record.venv), platform)
+    : pythonPath;
+  if (name === undefined || name === "python" || name === "python3") {
+    return { executable: python, args: [] };
+  }
+  if (name === "pip" || name === "pip3") {
+    return { executable: python, args: ["-m", "pip"] };
+  }
+  return undefined;
+}
+
+/**
+ * Puts the interpreter and its scripts directory on PATH. A virtualenv
+ * created by pythonPackages comes first and is activated through
+ * VIRTUAL_ENV; PYTHONHOME is only set without one, since it would make the
+ * venv's interpreter ignore the venv.
+ */
+export function getPythonEnv(
+  runtimeDir: string,
+  platform: string,
+  record?: PythonPackagesRecord
+): RuntimeEnv {
+  const pathDirs =
+    platform === "win32"
+      ? [runtimeDir, path.join(runtimeDir, "Scripts")]
+      : [path.join(runtimeDir, "bin")];
+  if (!record?.venv) {
+    return { pathDirs, variables: { PYTHONHOME: runtimeDir } };
+  }
+
+  const venvDir = path.join(runtimeDir, record.venv);
+  return {
+    pathDirs: [path.join(venvDir, platform === "win32" ? "Scripts" : "bin"), ...pathDirs],
+    variables: { VIRTUAL_ENV: venvDir },
+  };
+}
+
+/**
+ * Describes what `options` asks for, hashing requirement files so edits to
+ * them are noticed. Two equal descriptions mean the same environment.
+ */
+export async function describePythonPackages(
+  options: PythonPackagesOptions
+): Promise<PythonPackagesRecord> {
+  const record: PythonPackagesRecord = {
+    installer: getPythonInstaller(options),
+    packages: [...(options.packages ?? [])].sort(),
+  };
+
+  const venv = getVenvDir(options);
+  if (venv) {
+    record.venv = venv;
+  }
+  if (options.requirements) {
+    record.requirementsSha256 = await computeFileSha256(options.requirements);
+  }
+  if (options.pyproject) {
+    record.pyprojectSha256 = await computeFileSha256(options.pyproject);
+  }
+  return record;
+}
+
+export function isSamePythonPackages(
+  installed: PythonPackagesRecord | undefined,
+  requested: PythonPackagesRecord
+): boolean {
+  if (!installed) {
+    return false;
+  }
+
+  const { installed: _installed, ...installedRequest } = installed;
+  return JSON.stringify(installedRequest) === JSON.stringify(requested);
+}
+
+function getInstallSourceArgs(options: PythonPackagesOptions): string[] {
+  const args: string[] = [];
+  if (options.findLinks) {
+    args.push("--no-index", "--find-links", path.resolve(options.findLinks));
+  } else if (options.indexUrl) {
+    args.push("--index-url", options.indexUrl);
+  }
+  if (options.requirements) {
+    args.push("-r", path.resolve(options.requirements));
+  }
+  if (options.pyproject) {
+    args.push(path.dirname(path.resolve(options.pyproject)));
+  }
+  args.push(...(options.packages ?? []));
+  return args;
+}
+
+/**
+ * Creates a virtualenv in `runtimeDir` (unless `venv` is false) and installs
+ * the requested packages with the bundled pip or a co-installed uv. On unix
+ * the venv is then made relocatable.
+ */
+export async function installPythonPackages(
+  runtimeDir: string,
+  pythonPath: string,
+  platform: string,
+  options: PythonPackagesOptions,
+  env: NodeJS.ProcessEnv,
+  logger: Logger = consoleLogger
+): Promise<PythonPackagesRecord> {
+  const record = await describePythonPackages(options);
+  const installer = record.installer;
+  // Without a path, or with a bare name, uv is looked up on PATH
+  const uvPath =
+    options.uvPath && /[\\/]/.test(options.uvPath)
+      ? path.resolve(options.uvPath)
+      : (options.uvPath ?? "uv");
+
+  let targetPython = pythonPath;
+  if (record.venv) {
+    const venvDir = path.join(runtimeDir, record.venv);
+    if (installer === "uv") {
+      await runCommand(
+        uvPath,
+        ["venv", "--relocatable", "--python", pythonPath, venvDir],
+        env,
+        logger
+      );
+    } else {
+      await runCommand(pythonPath, ["-m", "venv", venvDir], env, logger);
+    }
+    targetPython = getVenvPythonPath(venvDir, platform);
+  }
+
+  const sourceArgs = getInstallSourceArgs(options);
+  if (sourceArgs.some((arg) => !arg.startsWith("-"))) {
+    if (installer === "uv") {
+      await runCommand(
+        uvPath,
+        ["pip", "install", "--python", targetPython, ...sourceArgs],
+        env,
+        logger
+      );
+    } else {
+      await runCommand(
+        targetPython,
+        ["-m", "pip", "install", "--disable-pip-version-check", ...sourceArgs],
+        env,
+        logger
+      );
+    }
+  }
+
+  const freeze =
+    installer === "uv"
+      ? await runCommand(uvPath, ["pip", "freeze", "--python", targetPython], env, logger)
+      : await runCommand(
+          targetPython,
+          ["-m", "pip", "freeze", "--disable-pip-version-check"],
+          env,
+          logger
+        );
+  record.installed = freeze
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (record.venv) {
+    await makeVenvRelocatable(path.join(runtimeDir, record.venv), platform);
+  }
+  return record;
+}
+
+/**
+ * Makes a unix venv survive being moved along with the runtime. Python
+ * resolves a relative `home` in `pyvenv.cfg` against the working directory,
+ * so the key is dropped instead; the interpreter then finds the runtime by
+ * searching up from the venv, which lives inside it. Console scripts get a
+ * `/bin/sh` preamble that runs the python next to them instead of an
+ * absolute shebang. Windows venvs are left as they are, since their
+ * launchers need an absolute `home`.
+ */
+export async function makeVenvRelocatable(venvDir: string, platform: string): Promise<void> {
+  if (platform === "win32") {
+    return;
+  }
+
+  const configPath = path.join(venvDir, "pyvenv.cfg");
+  const config = await fs.readFile(configPath, "utf8");
+  await fs.writeFile(
+    configPath,
+    config
+      .split(/\r?\n/)
+      .filter((line) => !/^\s*home\s*=/i.test(line))
+      .join("\n")
+  );
+
+  const binDir = path.join(venvDir, "bin");
+  for (const file of await fs.readdir(binDir)) {
+    const filePath = path.join(binDir, file);
+    const stats = await fs.lstat(filePath);
+    if (!stats.isFile() || stats.size > MAX_RELOCATED_FILE_SIZE) {
+      continue;
+    }
+
+    const content = await fs.readFile(filePath, "utf8");
+    const shebang = /^#!(\S+)\r?\n/.exec(content);
+    if (!shebang || path.dirname(shebang[1]) !== binDir) {
+      continue;
+    }
+    // Valid shell and Python at once: sh runs the exec line, Python sees a string literal
+    const preamble = [
+      "#!/bin/sh",
+      `'''exec' "$(dirname -- "$0")/${path.basename(shebang[1])}" "$0" "$@"`,
+      "' '''",
+    ].join("\n");
+    await fs.writeFile(filePath, `${preamble}\n${content.slice(shebang[0].length)}`);
+  }
+}
+
+/**
+ * Points a Windows console-script launcher at `toDir`. Both kinds are a stub
+ * `.exe` with the script appended: pip's carry a `#!<python>` line followed
+ * by a zip that the stub finds from its end, so the line may change length,
+ * while uv's end in `<python><u32 length>UVSC`. Returns undefined for
+ * anything else, which is left untouched.
+ */
+function relocateLauncher(content: Buffer, fromDir: string, toDir: string): Buffer | undefined {
+  const magic = content.subarray(content.length - 4).toString("latin1");
+  if (magic === "UVSC" || magic === "UVPY") {
+    const lengthOffset = content.length - 8;
+    const pathOffset = lengthOffset - content.readUInt32LE(lengthOffset);
+    const python = content.subarray(pathOffset, lengthOffset).toString("utf8");
+    if (pathOffset < 0 || !python.startsWith(fromDir)) {
+      return undefined;
+    }
+
+    const relocated = Buffer.from(toDir + python.slice(fromDir.length), "utf8");
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(relocated.length);
+    return Buffer.concat([
+      content.subarray(0, pathOffset),
+      relocated,
+      length,
+      content.subarray(-4),
+    ]);
+  }
+
+  const shebangOffset = Math.max(
+    content.lastIndexOf(`#!${fromDir}`),
+    content.lastIndexOf(`#!"${fromDir}`)
+  );
+  const lineEnd = content.indexOf("\n", shebangOffset);
+  if (shebangOffset < 0 || lineEnd < 0) {
+    return undefined;
+  }
+
+  const shebang = content.subarray(shebangOffset, lineEnd).toString("utf8");
+  return Buffer.concat([
+    content.subarray(0, shebangOffset),
+    Buffer.from(shebang.split(fromDir).join(toDir), "utf8"),
+    content.subarray(lineEnd),
+  ]);
+}
+
+/**
+ * Rewrites `fromDir` to `toDir` in small text files such as `pyvenv.cfg` and
+ * console-script shebangs, and in the Windows `.exe` launchers pip and uv
+ * write for console scripts, and makes symlinks into `fromDir` relative, so
+ * an environment built in the staging directory works once it is renamed into place.
+ */
+export async function relocatePythonPaths(
+  paths: string[],
+  fromDir: string,
+  toDir: string
+): Promise<void> {
+  for (const entryPath of paths) {
+    if (!(await fs.pathExists(entryPath))) {
+      continue;
+    }
+
+    const stats = await fs.stat(entryPath);
+    const files = stats.isDirectory()
+      ? (await fs.readdir(entryPath)).map((file) => path.join(entryPath, file))
+      : [entryPath];
+
+    for (const file of files) {
+      const fileStats = await fs.lstat(file);
+      if (fileStats.isSymbolicLink()) {
+        const linkTarget = await fs.readlink(file);
+        if (path.isAbsolute(linkTarget) && linkTarget.startsWith(fromDir)) {
+          await fs.remove(file);
+          await fs.symlink(path.relative(path.dirname(file), linkTarget), file);
+        }
+        continue;
+      }
+
+      if (!fileStats.isFile() || fileStats.size > MAX_RELOCATED_FILE_SIZE) {
+        continue;
+      }
+
+      const content = await fs.readFile(file);
+      if (!content.includes(fromDir)) {
+        continue;
+      }
+
+      if (!content.includes(0)) {
+        await fs.writeFile(file, content.toString("utf8").split(fromDir).join(toDir));
+      } else if (path.extname(file).toLowerCase() === ".exe") {
+        const relocated = relocateLauncher(content, fromDir, toDir);
+        if (relocated) {
+          await fs.writeFile(file, relocated);
+        }
+      }
+    }
+  }
+}
+
+export function getRelocatablePythonPaths(
+  runtimeDir: string,
+  record: PythonPackagesRecord,
+  platform: string
+): string[] {
+  if (!record.venv) {
+    return [path.join(runtimeDir, platform === "win32" ? "Scripts" : "bin")];
+  }
+
+  const venvDir = path.join(runtimeDir, record.venv);
+  return [
+    path.join(venvDir, "pyvenv.cfg"),
+    path.join(venvDir, platform === "win32" ? "Scripts" : "bin"),
+  ];
+}
@@ -0,0 +1,204 @@
+import path from "path";
+import fs from "fs-extra";
+import { ConfigError, UnsupportedPlatformError } from "./errors.js";
+import {
+  ArchiveType,
+  RegisterRuntimeOptions,
+  RuntimeConfig,
+  RuntimeDefinition,
+  RuntimeTarget,
+} from "./types.js";
+
+const RUNTIME_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+const runtimeConfigs = new Map<string, RuntimeConfig>();
+const builtinRuntimeTypes = new Set<string>();
+
+/** Turns a `<arch>-<platform>` keyed platform table into target pairs */
+export function getPlatformTableTargets(table: Record<string, unknown>): RuntimeTarget[] {
+  return Object.keys(table).map((key) => {
+    const [arch, platform] = key.split("-");
+    return { platform, arch };
+  });
+}
+
+export function registerBuiltinRuntimes(configs: Record<string, RuntimeConfig>): void {
+  for (const [name, config] of Object.entries(configs)) {
+    runtimeConfigs.set(name, config);
+    builtinRuntimeTypes.add(name);
+  }
+}
+
+/**
+ * Makes a runtime type available to `RuntimeInjector`, the manifest and the
+ * CLI. Registering an existing custom name replaces it; replacing a built-in
+ * runtime requires `override`.
+ */
+export function registerRuntime(
+  name: string,
+  config: RuntimeConfig,
+  options: RegisterRuntimeOptions = {}
+): void {
+  if (!RUNTIME_NAME_PATTERN.test(name)) {
+    throw new ConfigError(
+      `Invalid runtime type "${name}": use letters, digits, "-" and "_" only`
+    );
+  }
+
+  if (builtinRuntimeTypes.has(name) && !options.override) {
+    throw new ConfigError(
+      `Runtime type "${name}" is built in; pass { override: true } to replace it`
+    );
+  }
+
+  if (typeof config?.getExecutablePath !== "function") {
+    throw new ConfigError(`Runtime config for "${name}" must define getExecutablePath`);
+  }
+
+  if (!config.getDownloadUrl && !config.downloadUrlTemplate) {
+    throw new ConfigError(
+      `Runtime config for "${name}" must define getDownloadUrl or downloadUrlTemplate`
+    );
+  }
+
+  runtimeConfigs.set(name, config);
+}
+
+export function unregisterRuntime(name: string): boolean {
+  if (builtinRuntimeTypes.has(name)) {
+    throw new ConfigError(`Runtime type "${name}" is built in and cannot be unregistered`);
+  }
+
+  return runtimeConfigs.delete(name);
+}
+
+export function isRuntimeRegistered(name: string): boolean {
+  return runtimeConfigs.has(name);
+}
+
+export function getRuntimeTypes(): string[] {
+  return [...runtimeConfigs.keys()];
+}
+
+export function getRuntimeConfig(name: string): RuntimeConfig {
+  const config = runtimeConfigs.get(name);
+  if (!config) {
+    throw new ConfigError(
+      `Unknown runtime type "${name}". Registered types: ${getRuntimeTypes().join(", ")}`
+    );
+  }
+  return config;
+}
+
+function expandTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in variables ? variables[key] : placeholder
+  );
+}
+
+async function stripExtractedDirs(
+  extractedDir: string,
+  stripComponents: number
+): Promise<string> {
+  let sourceDir = extractedDir;
+  for (let level = 0; level < stripComponents; level++) {
+    const entries = await fs.readdir(sourceDir, { withFileTypes: true });
+    if (entries.length !== 1 || !entries[0].isDirectory()) {
+      throw new Error(
+        `Cannot strip ${stripComponents} leading directories: ${sourceDir} does not contain a single directory`
+      );
+    }
+    sourceDir = path.join(sourceDir, entries[0].name);
+  }
+  return sourceDir;
+}
+
+/** Compiles a declarative runtime definition into a `RuntimeConfig` */
+export function defineRuntime(name: string, definition: RuntimeDefinition): RuntimeConfig {
+  for (const key of ["defaultVersion", "downloadUrlTemplate", "fileNameTemplate", "executable"] as const) {
+    if (typeof definition?.[key] !== "string" || !definition[key]) {
+      throw new ConfigError(`Runtime definition "${name}" must set "${key}"`);
+    }
+  }
+
+  if (!definition.targets || Object.keys(definition.targets).length === 0) {
+    throw new ConfigError(`Runtime definition "${name}" must list at least one target`);
+  }
+
+  const getTarget = (
+    platform: string,
+    arch: string
+  ): { target: string; archiveType: ArchiveType } => {
+    const entry = definition.targets[`${arch}-${platform}`];
+    if (!entry) {
+      throw new UnsupportedPlatformError(
+        `Unsupported platform for ${name}: ${platform}-${arch}. Supported targets: ${Object.keys(definition.targets).join(", ")}.`,
+        platform,
+        arch
+      );
+    }
+
+    const archiveType =
+      (typeof entry === "string" ? undefined : entry.archiveType) ??
+      definition.archiveType ??
+      "tar.gz";
+    return {
+      target: typeof entry === "string" ? entry : entry.target,
+      archiveType,
+    };
+  };
+
+  return {
+    defaultVersion: definition.defaultVersion,
+    checksum: definition.checksum,
+    releaseSource: definition.releaseSource,
+    downloadUrlTemplate: definition.downloadUrlTemplate,
+    mirrorEnvKeys: definition.mirrorEnvKeys,
+    targets: getPlatformTableTargets(definition.targets),
+    versionArgs: definition.versionArgs,
+    cleanupProfiles: definition.cleanupProfiles,
+    getReleaseTag: (version: string) =>
+      definition.tagTemplate
+        ? expandTemplate(definition.tagTemplate, { version })
+        : version,
+    getAssetName: (version: string, platform: string, arch: string) => {
+      const { target, archiveType } = getTarget(platform, arch);
+      return expandTemplate(definition.fileNameTemplate, {
+        version,
+        target,
+        ext: archiveType,
+        platform,
+        arch,
+      });
+    },
+    getFileExtension: (platform: string, arch: string) =>
+      getTarget(platform, arch).archiveType,
+    getExecutablePath: (targetDir: string, platform: string) =>
+      path.join(
+        targetDir,
+        expandTemplate(definition.executable, {
+          exe: platform === "win32" ? ".exe" : "",
+        })
+      ),
+    extractFiles: async (extractedDir: string, targetDir: string) => {
+      const sourceDir = await stripExtractedDirs(
+        extractedDir,
+        definition.stripComponents ?? 0
+      );
+      for (const file of await fs.readdir(sourceDir)) {
+        await fs.move(path.join(sourceDir, file), path.join(targetDir, file), {
+          overwrite: true,
+        });
+      }
+    },
+  };
+}
+
+/** Registers every declarative definition in a config file's `runtimeDefinitions` map */
+export function registerRuntimeDefinitions(
+  definitions: Record<string, RuntimeDefinition>
+): void {
+  for (const [name, definition] of Object.entries(definitions)) {
+    registerRuntime(name, defineRuntime(name, definition));
+  }
+}
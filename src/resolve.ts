@@ -0,0 +1,137 @@
+import path from "path";
+import fs from "fs-extra";
+import { VerifyError } from "./errors.js";
+import { RuntimeInjector } from "./index.js";
+import { getInstallMarkerPath, readInstallMarker } from "./marker.js";
+import { getRuntimeConfig } from "./registry.js";
+import {
+  InstallMarker,
+  ResolvedRuntime,
+  ResolveRuntimeOptions,
+  RuntimeEnv,
+  RuntimeInfo,
+} from "./types.js";
+
+// Concurrent resolves of a missing runtime share one install
+const pendingInstalls = new Map<string, Promise<ResolvedRuntime>>();
+
+/** The runtime's PATH entries and variables, from its config or the executable's directory */
+export function getRuntimeEnv(runtime: RuntimeInfo, marker?: InstallMarker): RuntimeEnv {
+  const config = getRuntimeConfig(runtime.type);
+  return config.getEnv
+    ? config.getEnv(runtime.targetDir, runtime.platform, marker)
+    : { pathDirs: [path.dirname(runtime.executablePath)], variables: {} };
+}
+
+/**
+ * Returns the variables to add to `baseEnv` for `runtimeEnv`: its variables,
+ * and PATH with its directories in front. On Windows the existing PATH key
+ * keeps its casing (usually `Path`) so the child does not get two of them.
+ */
+export function mergeRuntimeEnv(
+  runtimeEnv: RuntimeEnv,
+  baseEnv: NodeJS.ProcessEnv = process.env
+): Record<string, string> {
+  const pathKey =
+    process.platform === "win32"
+      ? (Object.keys(baseEnv).find((key) => key.toUpperCase() === "PATH") ?? "Path")
+      : "PATH";
+  const currentPath = baseEnv[pathKey];
+  return {
+    ...runtimeEnv.variables,
+    [pathKey]: [...runtimeEnv.pathDirs, ...(currentPath ? [currentPath] : [])].join(
+      path.delimiter
+    ),
+  };
+}
+
+/** Finds an install with a record and an executable in `targetDir` */
+async function findInstall(
+  targetDir: string,
+  info: Pick<RuntimeInfo, "type" | "platform" | "arch">
+): Promise<ResolvedRuntime | undefined> {
+  const { type, platform } = info;
+  // A universal macOS install serves either arch
+  const archs = platform === "darwin" ? [info.arch, "universal"] : [info.arch];
+  for (const arch of archs) {
+    const marker = await readInstallMarker(
+      getInstallMarkerPath(targetDir, type, platform, arch)
+    );
+    const executablePath = getRuntimeConfig(type).getExecutablePath(targetDir, platform);
+    if (!marker || !(await fs.pathExists(executablePath))) {
+      continue;
+    }
+
+    const runtime: RuntimeInfo = {
+      type,
+      version: marker.version,
+      platform,
+      arch,
+      targetDir,
+      executablePath,
+    };
+    return {
+      ...runtime,
+      marker,
+      env: mergeRuntimeEnv(getRuntimeEnv(runtime, marker)),
+      installed: false,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Locates an injected runtime at app runtime and returns its executable,
+ * version and environment. The runtime is looked up in `<baseDir>/<type>`,
+ * then in `<installDir>/<type>`; if neither has it and `installDir` is set,
+ * it is installed there. An install found in either place is used as is,
+ * without checking for a newer version.
+ */
+export async function resolveRuntime(options: ResolveRuntimeOptions): Promise<ResolvedRuntime> {
+  const info = {
+    type: options.type,
+    platform: options.platform || process.platform,
+    arch: options.arch || process.arch,
+  };
+  const targetDirs = [options.baseDir, options.installDir]
+    .filter((dir): dir is string => Boolean(dir))
+    .map((dir) => path.resolve(dir, info.type));
+
+  for (const targetDir of targetDirs) {
+    const runtime = await findInstall(targetDir, info);
+    if (runtime) {
+      return runtime;
+    }
+  }
+
+  if (!options.installDir) {
+    throw new VerifyError(
+      `No ${info.type} runtime for ${info.platform}-${info.arch} found in ${targetDirs[0]}`,
+      targetDirs[0]
+    );
+  }
+
+  const targetDir = targetDirs[targetDirs.length - 1];
+  let install = pendingInstalls.get(targetDir);
+  if (!install) {
+    install = (async () => {
+      await new RuntimeInjector({
+        ...options.installOptions,
+        type: info.type,
+        platform: info.platform,
+        arch: info.arch,
+        targetDir,
+      }).inject();
+      const runtime = await findInstall(targetDir, info);
+      if (!runtime) {
+        throw new VerifyError(
+          `Installed ${info.type} into ${targetDir}, but it has no install record`,
+          targetDir
+        );
+      }
+      return { ...runtime, installed: true };
+    })().finally(() => pendingInstalls.delete(targetDir));
+    pendingInstalls.set(targetDir, install);
+  }
+  return install;
+}
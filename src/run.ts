@@ -0,0 +1,105 @@
+import path from "path";
+import fs from "fs-extra";
+import { spawn } from "child_process";
+import { CommandError, ConfigError } from "./errors.js";
+import { consoleLogger } from "./logger.js";
+import { getInstallMarkerPath, readInstallMarker } from "./marker.js";
+import { getRuntimeConfig } from "./registry.js";
+import { getRuntimeEnv, mergeRuntimeEnv } from "./resolve.js";
+import {
+  InstallMarker,
+  ResolvedRuntime,
+  RunOptions,
+  RunResult,
+  RuntimeCommand,
+  RuntimeEnv,
+  RuntimeInfo,
+} from "./types.js";
+
+/** Asks the runtime's config first, then looks for `<name>{exe}` on the runtime's PATH entries */
+async function resolveCommand(
+  runtime: RuntimeInfo,
+  runtimeEnv: RuntimeEnv,
+  name: string | undefined,
+  marker?: InstallMarker
+): Promise<RuntimeCommand> {
+  const command = getRuntimeConfig(runtime.type).getCommand?.(
+    runtime.targetDir,
+    runtime.platform,
+    name,
+    marker
+  );
+  if (command) {
+    return command;
+  }
+  if (name === undefined) {
+    return { executable: runtime.executablePath, args: [] };
+  }
+
+  const fileName = runtime.platform === "win32" ? `${name}.exe` : name;
+  for (const dir of runtimeEnv.pathDirs) {
+    const executable = path.join(dir, fileName);
+    if (await fs.pathExists(executable)) {
+      return { executable, args: [] };
+    }
+  }
+  throw new ConfigError(`The ${runtime.type} runtime in ${runtime.targetDir} has no "${name}" command`);
+}
+
+/**
+ * Runs an installed runtime, or one of its commands, with the runtime's PATH
+ * entries and variables on top of process.env and `options.env`. Output is
+ * streamed to this process unless `options.stdio` is "pipe". Resolves with
+ * the exit code once the process ends, whatever the code; rejects only when
+ * the process cannot be started.
+ */
+export async function runWith(
+  runtime: RuntimeInfo | ResolvedRuntime,
+  args: string[] = [],
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const logger = options.logger ?? consoleLogger;
+  const marker =
+    "marker" in runtime
+      ? runtime.marker
+      : await readInstallMarker(
+          getInstallMarkerPath(runtime.targetDir, runtime.type, runtime.platform, runtime.arch)
+        );
+  const runtimeEnv = getRuntimeEnv(runtime, marker);
+  const command = await resolveCommand(runtime, runtimeEnv, options.command, marker);
+  const baseEnv = { ...process.env, ...options.env };
+  const commandArgs = [...command.args, ...args];
+
+  logger.debug(`Running: ${[command.executable, ...commandArgs].join(" ")}`);
+  return new Promise<RunResult>((resolve, reject) => {
+    const stdio = options.stdio ?? "inherit";
+    const child = spawn(command.executable, commandArgs, {
+      cwd: options.cwd,
+      env: { ...baseEnv, ...mergeRuntimeEnv(runtimeEnv, baseEnv) },
+      stdio: stdio === "pipe" ? ["ignore", "pipe", "pipe"] : "inherit",
+    });
+
+    const output = { stdout: "", stderr: "" };
+    for (const stream of ["stdout", "stderr"] as const) {
+      child[stream]?.setEncoding("utf8");
+      child[stream]?.on("data", (chunk: string) => {
+        output[stream] += chunk;
+        options.onOutput?.(chunk, stream);
+      });
+    }
+
+    child.once("error", (error) => {
+      reject(
+        new CommandError(
+          `Failed to run ${command.executable}: ${error.message}`,
+          command.executable,
+          commandArgs,
+          error
+        )
+      );
+    });
+    child.once("close", (exitCode, signal) => {
+      resolve({ exitCode, signal, ...output });
+    });
+  });
+}
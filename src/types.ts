@@ -1,10 +1,14 @@
-export type RuntimeType =
+export type BuiltinRuntimeType =
   | "node"
   | "bun"
   | "uv"
   | "ripgrep"
   | "python"
-  | "rtk";
+  | "rtk"
+  | "deno";
+
+/** A built-in runtime or any name added with `registerRuntime` */
+export type RuntimeType = BuiltinRuntimeType | (string & {});
 
 export interface RuntimeOptions {
   type?: RuntimeType;
@@ -16,13 +20,198 @@ export interface RuntimeOptions {
   httpProxy?: string;
   httpsProxy?: string;
   noProxy?: string;
+  expectedSha256?: string;
+  lockfile?: string | boolean;
+  frozen?: boolean;
+  cacheDir?: string | false;
+  archivePath?: string;
+  mirrorDir?: string;
+  offline?: boolean;
+  mirror?: string;
+  mirrors?: Partial<Record<RuntimeType, string>>;
+  /** Retry and timeout settings for archive downloads */
+  download?: DownloadOptions;
+  /** Packages to install into the injected Python (python runtime only) */
+  pythonPackages?: PythonPackagesOptions;
+  /** Global npm packages to install into the injected Node (node runtime only) */
+  npmPackages?: NpmPackagesOptions;
+  /** How an existing install is checked before reuse; defaults to "auto" */
+  verify?: VerifyMode;
+  /** Receives all log output; defaults to the console at "info" level */
+  logger?: Logger;
+  /** Called as the install moves through its phases and while downloading */
+  onEvent?: (event: InjectEvent) => void;
+}
+
+export interface DownloadOptions {
+  /** Further attempts after a network error or a 408, 429 or 5xx response; defaults to 3 */
+  retries?: number;
+  /** Milliseconds before the first retry, doubled for each further one; defaults to 1000 */
+  retryDelay?: number;
+  /** Milliseconds to wait for the response headers; defaults to 30000 */
+  connectTimeout?: number;
+  /** Milliseconds without receiving data before the connection is dropped; defaults to 60000 */
+  idleTimeout?: number;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export interface Logger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+export type InstallPhase = "resolve" | "verify" | "download" | "extract" | "cleanup" | "done";
+
+/** Where a downloaded archive came from */
+export type DownloadSource = "network" | "cache" | "mirror" | "archive";
+
+/** Identifies the runtime an event belongs to; universal installs report each arch */
+export interface InjectEventTarget {
+  type: string;
+  version: string;
+  platform: string;
+  arch: string;
+}
+
+export type InjectEventDetails =
+  | { phase: "resolve"; requestedVersion: string }
+  | {
+      phase: "verify";
+      /** "install" checks an existing targetDir, "checksum" a downloaded archive */
+      subject: "install" | "checksum";
+    }
+  | {
+      phase: "download";
+      url: string;
+      source: DownloadSource;
+      bytes: number;
+      /** Missing when the server sends no Content-Length */
+      total?: number;
+      bytesPerSecond: number;
+    }
+  | { phase: "extract"; archive: string }
+  | { phase: "cleanup"; dryRun: boolean }
+  | { phase: "done"; status: InjectResult["status"] };
+
+export type InjectEvent = InjectEventTarget & InjectEventDetails;
+
+/**
+ * "exec" runs the executable and checks its version output, "static" checks
+ * the recorded file hashes and the executable's binary header instead, and
+ * "auto" runs it only when the target platform and arch match the host.
+ */
+export type VerifyMode = "auto" | "exec" | "static";
+
+export interface NpmPackagesOptions {
+  /** Package specs such as "pnpm" or "typescript@5.7.2" */
+  packages: string[];
+  /** Directory of `npm pack` tarballs to install from instead of the registry */
+  tarballDir?: string;
+  registry?: string;
+}
+
+export interface NpmPackagesRecord {
+  packages: string[];
+  /** SHA-256 of each tarball used, keyed by file name */
+  tarballs?: Record<string, string>;
+  /** Installed version of each top-level global package */
+  installed?: Record<string, string>;
+}
+
+export interface PythonPackagesOptions {
+  packages?: string[];
+  /** Path to a requirements.txt */
+  requirements?: string;
+  /** Path to a pyproject.toml; its project and dependencies are installed */
+  pyproject?: string;
+  /** Virtualenv directory inside targetDir (default "venv"); false installs into the runtime's site-packages */
+  venv?: string | boolean;
+  /** Defaults to "uv" when uvPath is given, otherwise the bundled pip */
+  installer?: "pip" | "uv";
+  /** uv executable to install with, e.g. from a co-installed uv runtime */
+  uvPath?: string;
+  /** Local wheel directory; installs from it without the package index */
+  findLinks?: string;
+  indexUrl?: string;
+}
+
+export interface PythonPackagesRecord {
+  installer: "pip" | "uv";
+  /** Virtualenv directory relative to targetDir, if one was created */
+  venv?: string;
+  packages: string[];
+  requirementsSha256?: string;
+  pyprojectSha256?: string;
+  /** `pip freeze` output after installing */
+  installed?: string[];
+}
+
+/** An archive an install was built from */
+export interface InstallSource {
+  arch: string;
+  /** Upstream download URL, as recorded in the lockfile */
+  url: string;
+  sha256?: string;
+}
+
+export interface InstalledFile {
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Contents of the `<type>_<platform>_<arch>` install record in targetDir.
+ * Records written by older releases only have `version`.
+ */
+export interface InstallMarker {
+  type?: string;
+  version: string;
+  platform?: string;
+  arch?: string;
+  /** One archive, or one per architecture for universal installs */
+  sources?: InstallSource[];
+  /** ISO 8601 time the install finished staging */
+  installedAt?: string;
+  /** Cleanup settings the runtime was trimmed with */
+  cleanup?: boolean | CleanupConfig;
+  pythonPackages?: PythonPackagesRecord;
+  npmPackages?: NpmPackagesRecord;
+  /** Every file in targetDir, keyed by its forward-slash relative path */
+  files?: Record<string, InstalledFile>;
+}
+
+export interface InstalledFileChanges {
+  /** Recorded files that no longer exist */
+  missing: string[];
+  /** Recorded files whose size or SHA-256 changed */
+  modified: string[];
+  /** Files in targetDir that the install did not create */
+  extra: string[];
+}
+
+export interface InstallVerification extends InstalledFileChanges {
+  targetDir: string;
+  marker: InstallMarker;
+  /** True when nothing is missing, modified or extra */
+  ok: boolean;
 }
 
 export interface CleanupConfig {
+  // These three default to true for Node.js and to false for the other runtimes
+  /** Remove `*.md`, `doc/` and `docs/`, plus Node.js's `share/` on macOS and Linux */
   removeDocs?: boolean;
+  /** Remove C/C++ sources and headers, including `include/` */
   removeDevFiles?: boolean;
+  /** Remove `*.map` files */
   removeSourceMaps?: boolean;
+  /** Runtime-specific cleanup profile, e.g. "minimal" for Python; defaults to "default" */
+  profile?: string;
   customRules?: CleanupRule[];
+  /** Report what cleanup would remove without touching targetDir */
+  dryRun?: boolean;
 }
 
 export interface CleanupRule {
@@ -30,6 +219,70 @@ export interface CleanupRule {
   description?: string;
 }
 
+/** What a runtime needs in the environment of the processes that use it */
+export interface RuntimeEnv {
+  /** Directories to put in front of PATH */
+  pathDirs: string[];
+  /** Variables such as PYTHONHOME or NODE_PATH */
+  variables: Record<string, string>;
+}
+
+export interface ResolveRuntimeOptions {
+  type: RuntimeType;
+  /** Directory the runtimes were injected into at build time; each lives in `<baseDir>/<type>` */
+  baseDir: string;
+  platform?: string;
+  arch?: string;
+  /**
+   * Installs the runtime into `<installDir>/<type>` when `baseDir` lacks it,
+   * e.g. under Electron's `app.getPath("userData")`. Without it a missing
+   * runtime is an error.
+   */
+  installDir?: string;
+  /** Options for installs into `installDir`, such as `version`, `mirror` or `onEvent` */
+  installOptions?: Omit<RuntimeOptions, "type" | "targetDir" | "platform" | "arch">;
+}
+
+export interface ResolvedRuntime extends RuntimeInfo {
+  /** The install record of the runtime that was found or installed */
+  marker: InstallMarker;
+  /** PATH with the runtime's directories in front, plus the runtime's variables */
+  env: Record<string, string>;
+  /** True when this call installed the runtime into `installDir` */
+  installed: boolean;
+}
+
+/** What runWith spawns for a command: an executable and the arguments that go before the caller's */
+export interface RuntimeCommand {
+  executable: string;
+  args: string[];
+}
+
+export interface RunOptions {
+  /**
+   * A command the runtime ships besides its main executable, such as `npm`,
+   * `npx`, `pip` or `uvx`. Defaults to the runtime itself.
+   */
+  command?: string;
+  cwd?: string;
+  /** Added to process.env before the runtime's PATH entries and variables are applied */
+  env?: NodeJS.ProcessEnv;
+  /** "inherit" (default) streams to this process's stdio; "pipe" collects the output */
+  stdio?: "inherit" | "pipe";
+  /** Called with each chunk of output when `stdio` is "pipe" */
+  onOutput?: (chunk: string, stream: "stdout" | "stderr") => void;
+  logger?: Logger;
+}
+
+export interface RunResult {
+  /** null when the process was ended by a signal */
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Collected output; empty unless `stdio` is "pipe" */
+  stdout: string;
+  stderr: string;
+}
+
 export interface RuntimeInfo {
   type: RuntimeType;
   version: string;
@@ -39,11 +292,180 @@ export interface RuntimeInfo {
   executablePath: string;
 }
 
+export type ChecksumSource =
+  | { kind: "manifest"; fileName: string }
+  | { kind: "sidecar"; suffix?: string };
+
+export interface CleanupRuleReport extends CleanupRule {
+  /** Paths relative to the runtime directory; a file is counted under the first rule matching it */
+  files: string[];
+  bytes: number;
+}
+
+export interface CleanupReport {
+  dryRun: boolean;
+  rules: CleanupRuleReport[];
+  sizeBefore: number;
+  sizeAfter: number;
+  bytesSaved: number;
+}
+
+export interface InjectResult extends RuntimeInfo {
+  /** "dry-run" installs nothing; see CleanupConfig.dryRun */
+  status: "installed" | "skipped" | "dry-run";
+  /** Set whenever cleanup ran */
+  cleanup?: CleanupReport;
+}
+
+export interface LockfileEntry {
+  type: RuntimeType;
+  requestedVersion: string;
+  version: string;
+  url: string;
+  sha256?: string;
+  platform: string;
+  arch: string;
+}
+
+export interface Lockfile {
+  lockfileVersion: number;
+  runtimes: Record<string, LockfileEntry>;
+}
+
+export interface CacheEntry {
+  url: string;
+  sha256: string;
+  size: number;
+  fileName: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface CachePruneOptions {
+  maxAgeDays?: number;
+}
+
+export interface RuntimeManifest {
+  concurrency?: number;
+  lockfile?: string | boolean;
+  /** Declarative runtimes registered before installing, keyed by type name */
+  runtimeDefinitions?: Record<string, RuntimeDefinition>;
+  defaults?: Partial<RuntimeOptions>;
+  runtimes: RuntimeOptions[];
+}
+
+export interface InjectAllOptions {
+  concurrency?: number;
+}
+
+export interface InjectSummaryEntry {
+  type: RuntimeType;
+  version?: string;
+  platform?: string;
+  arch?: string;
+  targetDir: string;
+  status: "installed" | "skipped" | "dry-run" | "failed";
+  durationMs: number;
+  cleanup?: CleanupReport;
+  error?: Error;
+}
+
+export interface InjectAllResult {
+  results: InjectSummaryEntry[];
+  installed: number;
+  skipped: number;
+  failed: number;
+}
+
+/** Where a runtime's published versions are listed, for resolving aliases and ranges */
+export type ReleaseSource =
+  | { kind: "node-dist"; indexUrl: string }
+  | { kind: "github"; repo: string; tagPrefix?: string }
+  | { kind: "python-build-standalone"; repo: string };
+
+export interface RuntimeRelease {
+  version: string;
+  tag: string;
+  assets: string[];
+  /** LTS codename for Node.js releases, false for non-LTS lines */
+  lts?: string | false;
+  prerelease?: boolean;
+  date?: string;
+}
+
+export interface RuntimeTarget {
+  platform: string;
+  arch: string;
+}
+
+export interface RuntimeTargetAvailability extends RuntimeTarget {
+  assetName: string;
+  available: boolean;
+}
+
+export interface RuntimeVersionInfo {
+  version: string;
+  tag: string;
+  date?: string;
+  lts?: string | false;
+  prerelease?: boolean;
+  /** Every platform/arch the injector supports, marked by whether the release ships its asset */
+  targets: RuntimeTargetAvailability[];
+}
+
+export interface ListVersionsOptions {
+  type?: RuntimeType;
+  /** Alias or semver range to filter by, e.g. `lts` or `^22` */
+  range?: string;
+  limit?: number;
+  httpProxy?: string;
+  httpsProxy?: string;
+  noProxy?: string;
+  mirror?: string;
+  offline?: boolean;
+}
+
 export interface RuntimeConfig {
   defaultVersion: string;
-  getDownloadUrl: (version: string, platform: string, arch: string) => string;
+  checksum?: ChecksumSource;
+  releaseSource?: ReleaseSource;
+  /** Platform/arch combinations the asset naming supports */
+  targets?: RuntimeTarget[];
+  /** Whether a version string names a single release; defaults to a strict semver check */
+  isExactVersion?: (version: string) => boolean;
+  normalizeVersion?: (version: string) => string;
+  /**
+   * Upstream URL with `{version}`, `{tag}`, `{platform}`, `{arch}` and
+   * `{fileName}` placeholders. Everything before the first placeholder is the
+   * base that a mirror replaces.
+   */
+  downloadUrlTemplate?: string;
+  /** Extra env vars, besides TINY_RUNTIME_INJECTOR_<TYPE>_MIRROR, that hold a mirror */
+  mirrorEnvKeys?: string[];
+  getAssetName?: (version: string, platform: string, arch: string) => string;
+  getReleaseTag?: (version: string) => string;
+  getDownloadUrl?: (version: string, platform: string, arch: string) => string;
   getFileExtension: (platform: string, arch: string) => string;
   getExecutablePath: (targetDir: string, platform: string) => string;
+  /** PATH entries and variables processes need to use the runtime; defaults to the executable's directory on PATH */
+  getEnv?: (targetDir: string, platform: string, marker?: InstallMarker) => RuntimeEnv;
+  /**
+   * What runWith spawns for `name`, or for the runtime itself when `name` is
+   * undefined. Returning undefined falls back to the executable, or to
+   * `<name>{exe}` in one of the runtime's PATH directories.
+   */
+  getCommand?: (
+    targetDir: string,
+    platform: string,
+    name: string | undefined,
+    marker?: InstallMarker
+  ) => RuntimeCommand | undefined;
+  /** Arguments that make the executable print its version; defaults to `["--version"]` */
+  versionArgs?: string[];
+  /** Whether the version probe output matches the installed version; defaults to a substring check */
+  matchesVersion?: (output: string, version: string) => boolean;
+  /** Glob patterns removed by each cleanup profile; "default" applies unless another is chosen */
+  cleanupProfiles?: Record<string, string[]>;
   extractFiles?: (
     extractedDir: string,
     targetDir: string,
@@ -52,3 +474,35 @@ export interface RuntimeConfig {
     arch: string
   ) => Promise<void>;
 }
+
+export type ArchiveType = "tar.gz" | "zip";
+
+/**
+ * JSON-friendly runtime description for `defineRuntime`. Targets are keyed
+ * like the built-in platform tables (`<arch>-<platform>`, e.g. `x64-linux`).
+ */
+export interface RuntimeDefinition {
+  defaultVersion: string;
+  /** Upstream URL template, see `RuntimeConfig.downloadUrlTemplate` */
+  downloadUrlTemplate: string;
+  /** Archive name with `{version}`, `{target}`, `{ext}`, `{platform}` and `{arch}` placeholders */
+  fileNameTemplate: string;
+  /** Release tag template with a `{version}` placeholder; defaults to the version itself */
+  tagTemplate?: string;
+  targets: Record<string, string | { target: string; archiveType?: ArchiveType }>;
+  archiveType?: ArchiveType;
+  /** Number of leading directories to drop from the extracted archive */
+  stripComponents?: number;
+  /** Executable path relative to the install directory; `{exe}` becomes `.exe` on Windows */
+  executable: string;
+  versionArgs?: string[];
+  cleanupProfiles?: Record<string, string[]>;
+  checksum?: ChecksumSource;
+  releaseSource?: ReleaseSource;
+  mirrorEnvKeys?: string[];
+}
+
+export interface RegisterRuntimeOptions {
+  /** Allow replacing a built-in runtime */
+  override?: boolean;
+}
@@ -0,0 +1,198 @@
+import path from "path";
+import fs from "fs-extra";
+import { computeFileSha256 } from "./checksum.js";
+import { InstalledFile, InstalledFileChanges } from "./types.js";
+
+export type BinaryFormat = "elf" | "pe" | "macho";
+
+export interface BinaryInfo {
+  format: BinaryFormat;
+  /** Architectures in Node.js naming; fat Mach-O files list every slice */
+  archs: string[];
+}
+
+const HEADER_SIZE = 4096;
+const MAX_FAT_ARCHS = 30;
+
+const ELF_MACHINES: Record<number, string> = {
+  0x03: "ia32",
+  0x28: "arm",
+  0x3e: "x64",
+  0xb7: "arm64",
+  0x15: "ppc64",
+  0x16: "s390x",
+  0xf3: "riscv64",
+  0x102: "loong64",
+};
+
+const PE_MACHINES: Record<number, string> = {
+  0x014c: "ia32",
+  0x01c4: "arm",
+  0x8664: "x64",
+  0xaa64: "arm64",
+};
+
+const MACHO_CPU_TYPES: Record<number, string> = {
+  0x00000007: "ia32",
+  0x01000007: "x64",
+  0x0000000c: "arm",
+  0x0100000c: "arm64",
+};
+
+const PLATFORM_FORMATS: Record<string, BinaryFormat> = {
+  win32: "pe",
+  darwin: "macho",
+};
+
+function getArchName(table: Record<number, string>, value: number): string {
+  return table[value] ?? `unknown(0x${value.toString(16)})`;
+}
+
+/** Identifies an ELF, PE or Mach-O executable from its header; undefined for anything else */
+export function getBinaryInfo(header: Buffer): BinaryInfo | undefined {
+  if (header.length >= 20 && header.readUInt32BE(0) === 0x7f454c46) {
+    const littleEndian = header[5] === 1;
+    const machine = littleEndian ? header.readUInt16LE(18) : header.readUInt16BE(18);
+    return { format: "elf", archs: [getArchName(ELF_MACHINES, machine)] };
+  }
+
+  if (header.length >= 0x40 && header.toString("latin1", 0, 2) === "MZ") {
+    const peOffset = header.readUInt32LE(0x3c);
+    if (
+      peOffset + 6 <= header.length &&
+      header.toString("latin1", peOffset, peOffset + 4) === "PE\0\0"
+    ) {
+      return {
+        format: "pe",
+        archs: [getArchName(PE_MACHINES, header.readUInt16LE(peOffset + 4))],
+      };
+    }
+    return undefined;
+  }
+
+  if (header.length < 8) {
+    return undefined;
+  }
+  const thinMagic = header.readUInt32LE(0);
+  if (thinMagic === 0xfeedface || thinMagic === 0xfeedfacf) {
+    return {
+      format: "macho",
+      archs: [getArchName(MACHO_CPU_TYPES, header.readInt32LE(4))],
+    };
+  }
+
+  const fatMagic = header.readUInt32BE(0);
+  if (fatMagic === 0xcafebabe || fatMagic === 0xcafebabf) {
+    const entrySize = fatMagic === 0xcafebabf ? 32 : 20;
+    const count = header.readUInt32BE(4);
+    // Java class files share the fat magic; real fat headers list only a handful of slices
+    if (count === 0 || count > MAX_FAT_ARCHS || header.length < 8 + count * entrySize) {
+      return undefined;
+    }
+    const archs: string[] = [];
+    for (let index = 0; index < count; index++) {
+      archs.push(getArchName(MACHO_CPU_TYPES, header.readInt32BE(8 + index * entrySize)));
+    }
+    return { format: "macho", archs };
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks that the executable at `filePath` is built for `platform` and
+ * `arch` ("universal" requires both x64 and arm64 slices). Returns a
+ * description of the mismatch, or undefined when the binary fits.
+ */
+export async function checkBinaryTarget(
+  filePath: string,
+  platform: string,
+  arch: string
+): Promise<string | undefined> {
+  const handle = await fs.promises.open(filePath, "r");
+  let header: Buffer;
+  try {
+    const buffer = Buffer.alloc(HEADER_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_SIZE, 0);
+    header = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const info = getBinaryInfo(header);
+  const expectedFormat = PLATFORM_FORMATS[platform] ?? "elf";
+  if (!info) {
+    return `${filePath} is not an executable binary`;
+  }
+  if (info.format !== expectedFormat) {
+    return `${filePath} is a ${info.format} binary, expected ${expectedFormat} for ${platform}`;
+  }
+
+  const expectedArchs = arch === "universal" ? ["x64", "arm64"] : [arch];
+  const missing = expectedArchs.filter((name) => !info.archs.includes(name));
+  if (missing.length > 0) {
+    return `${filePath} is built for ${info.archs.join(", ")}, expected ${expectedArchs.join(", ")}`;
+  }
+  return undefined;
+}
+
+async function listFiles(dir: string, relativeDir = ""): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(path.join(dir, relativeDir), { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(dir, relativePath)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Records the size and SHA-256 of every regular file under `dir`, keyed by
+ * its forward-slash path relative to `dir`. Symlinks are not followed.
+ */
+export async function getInstalledFiles(dir: string): Promise<Record<string, InstalledFile>> {
+  const files: Record<string, InstalledFile> = {};
+  for (const relativePath of await listFiles(dir)) {
+    const filePath = path.join(dir, ...relativePath.split("/"));
+    files[relativePath] = {
+      size: (await fs.stat(filePath)).size,
+      sha256: await computeFileSha256(filePath),
+    };
+  }
+  return files;
+}
+
+/**
+ * Compares `dir` against a recorded file list. Files whose size differs are
+ * reported as modified without hashing them; `ignore` lists paths that are
+ * not counted as extra, such as the install record itself.
+ */
+export async function compareInstalledFiles(
+  dir: string,
+  files: Record<string, InstalledFile>,
+  ignore: string[] = []
+): Promise<InstalledFileChanges> {
+  const changes: InstalledFileChanges = { missing: [], modified: [], extra: [] };
+  for (const [relativePath, recorded] of Object.entries(files)) {
+    const filePath = path.join(dir, ...relativePath.split("/"));
+    const stats = await fs.lstat(filePath).catch(() => undefined);
+    if (!stats?.isFile()) {
+      changes.missing.push(relativePath);
+    } else if (
+      stats.size !== recorded.size ||
+      (await computeFileSha256(filePath)) !== recorded.sha256
+    ) {
+      changes.modified.push(relativePath);
+    }
+  }
+
+  if (await fs.pathExists(dir)) {
+    const known = new Set([...Object.keys(files), ...ignore]);
+    changes.extra = (await listFiles(dir)).filter((relativePath) => !known.has(relativePath));
+  }
+  return changes;
+}
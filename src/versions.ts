@@ -0,0 +1,239 @@
+import semver from "semver";
+import { ReleaseSource, RuntimeRelease } from "./types.js";
+
+export type JsonFetcher = <T>(url: string) => Promise<T>;
+
+const GITHUB_API_URL = "https://api.github.com";
+const GITHUB_PAGE_SIZE = 100;
+// python-build-standalone releases carry ~1500 assets each, so page through them slowly
+const PYTHON_BUILD_PAGE_SIZE = 10;
+const MAX_GITHUB_PAGES = 3;
+
+type GitHubRelease = {
+  tag_name: string;
+  draft?: boolean;
+  prerelease?: boolean;
+  published_at?: string;
+  assets?: Array<{ name: string }>;
+};
+
+type NodeDistRelease = {
+  version: string;
+  date?: string;
+  files: string[];
+  lts: string | false;
+};
+
+const PYTHON_ASSET_PATTERN =
+  /^cpython-(\d+\.\d+\.\d+)\+(\d+)-.+-install_only\.tar\.gz$/;
+
+export function isVersionAlias(spec: string): boolean {
+  const normalized = spec.toLowerCase();
+  return (
+    normalized === "latest" ||
+    normalized === "current" ||
+    normalized === "lts" ||
+    normalized.startsWith("lts/")
+  );
+}
+
+// Node's index.json lists platforms ("osx-arm64-tar", "win-x64-zip", ...) rather than file names
+function getNodeAssetNames(version: string, files: string[]): string[] {
+  const assets: string[] = [];
+  for (const file of files) {
+    if (/^linux-[\w]+$/.test(file)) {
+      assets.push(`node-${version}-${file}.tar.gz`);
+      continue;
+    }
+
+    const darwinMatch = file.match(/^osx-(\w+)-tar$/);
+    if (darwinMatch) {
+      assets.push(`node-${version}-darwin-${darwinMatch[1]}.tar.gz`);
+      continue;
+    }
+
+    const windowsMatch = file.match(/^win-(\w+)-zip$/);
+    if (windowsMatch) {
+      assets.push(`node-${version}-win-${windowsMatch[1]}.zip`);
+    }
+  }
+  return assets;
+}
+
+function fromGitHubRelease(
+  release: GitHubRelease,
+  tagPrefix = ""
+): RuntimeRelease | undefined {
+  if (release.draft || !release.tag_name.startsWith(tagPrefix)) {
+    return undefined;
+  }
+
+  return {
+    version: release.tag_name.slice(tagPrefix.length),
+    tag: release.tag_name,
+    assets: (release.assets ?? []).map((asset) => asset.name),
+    prerelease: Boolean(release.prerelease),
+    date: release.published_at?.slice(0, 10),
+  };
+}
+
+function fromPythonBuildRelease(release: GitHubRelease): RuntimeRelease[] {
+  if (release.draft) {
+    return [];
+  }
+
+  const assetsByVersion = new Map<string, string[]>();
+  for (const { name } of release.assets ?? []) {
+    const match = name.match(PYTHON_ASSET_PATTERN);
+    if (!match) {
+      continue;
+    }
+
+    const version = `${match[1]}+${match[2]}`;
+    assetsByVersion.set(version, [...(assetsByVersion.get(version) ?? []), name]);
+  }
+
+  return [...assetsByVersion].map(([version, assets]) => ({
+    version,
+    tag: release.tag_name,
+    assets,
+    prerelease: Boolean(release.prerelease),
+    date: release.published_at?.slice(0, 10),
+  }));
+}
+
+async function fetchGitHubReleases(
+  repo: string,
+  fetchJson: JsonFetcher,
+  latestOnly: boolean,
+  pageSize: number
+): Promise<GitHubRelease[]> {
+  if (latestOnly) {
+    return [
+      await fetchJson<GitHubRelease>(`${GITHUB_API_URL}/repos/${repo}/releases/latest`),
+    ];
+  }
+
+  const releases: GitHubRelease[] = [];
+  for (let page = 1; page <= MAX_GITHUB_PAGES; page++) {
+    const pageReleases = await fetchJson<GitHubRelease[]>(
+      `${GITHUB_API_URL}/repos/${repo}/releases?per_page=${pageSize}&page=${page}`
+    );
+    releases.push(...pageReleases);
+    if (pageReleases.length < pageSize) {
+      break;
+    }
+  }
+  return releases;
+}
+
+/**
+ * Lists the releases published by a runtime's upstream, newest first.
+ * `latestOnly` limits GitHub sources to the release marked as latest.
+ */
+export async function fetchReleases(
+  source: ReleaseSource,
+  fetchJson: JsonFetcher,
+  latestOnly = false
+): Promise<RuntimeRelease[]> {
+  if (source.kind === "node-dist") {
+    const releases = await fetchJson<NodeDistRelease[]>(source.indexUrl);
+    return releases.map((release) => ({
+      version: release.version,
+      tag: release.version,
+      assets: getNodeAssetNames(release.version, release.files),
+      lts: release.lts,
+      date: release.date,
+    }));
+  }
+
+  if (source.kind === "python-build-standalone") {
+    const releases = await fetchGitHubReleases(
+      source.repo,
+      fetchJson,
+      latestOnly,
+      PYTHON_BUILD_PAGE_SIZE
+    );
+    return sortReleases(releases.flatMap(fromPythonBuildRelease));
+  }
+
+  const releases = await fetchGitHubReleases(
+    source.repo,
+    fetchJson,
+    latestOnly,
+    GITHUB_PAGE_SIZE
+  );
+  return sortReleases(
+    releases
+      .map((release) => fromGitHubRelease(release, source.tagPrefix))
+      .filter((release): release is RuntimeRelease => Boolean(release))
+  );
+}
+
+function compareReleases(a: RuntimeRelease, b: RuntimeRelease): number {
+  const versionA = semver.coerce(a.version, { includePrerelease: true });
+  const versionB = semver.coerce(b.version, { includePrerelease: true });
+  if (versionA && versionB) {
+    const result = semver.rcompare(versionA, versionB);
+    if (result !== 0) {
+      return result;
+    }
+  }
+
+  // Rebuilds of the same version (python-build-standalone) differ only by tag date
+  return b.tag.localeCompare(a.tag);
+}
+
+export function sortReleases(releases: RuntimeRelease[]): RuntimeRelease[] {
+  return [...releases].sort(compareReleases);
+}
+
+function matchesSpec(release: RuntimeRelease, spec: string): boolean {
+  const normalized = spec.toLowerCase();
+  if (normalized === "latest" || normalized === "current") {
+    return !release.prerelease;
+  }
+
+  if (normalized === "lts" || normalized === "lts/*") {
+    return Boolean(release.lts);
+  }
+
+  if (normalized.startsWith("lts/")) {
+    return (
+      typeof release.lts === "string" &&
+      release.lts.toLowerCase() === normalized.slice("lts/".length)
+    );
+  }
+
+  const version = semver.valid(semver.clean(release.version) ?? release.version);
+  return Boolean(version && semver.satisfies(version, spec));
+}
+
+/** Newest-first releases matching an alias or semver range, or all releases without one */
+export function filterReleases(
+  releases: RuntimeRelease[],
+  spec?: string
+): RuntimeRelease[] {
+  const sorted = sortReleases(releases);
+  return spec ? sorted.filter((release) => matchesSpec(release, spec)) : sorted;
+}
+
+/**
+ * Picks the newest release that matches an alias (`latest`, `lts`,
+ * `lts/<codename>`) or a semver range and passes `isAvailable`.
+ */
+export function selectRelease(
+  releases: RuntimeRelease[],
+  spec: string,
+  isAvailable: (release: RuntimeRelease) => boolean = () => true
+): RuntimeRelease | undefined {
+  return filterReleases(releases, spec).find(isAvailable);
+}
+
+export function isValidVersionSpec(spec: string): boolean {
+  return isVersionAlias(spec) || semver.validRange(spec) !== null;
+}
+
+export function isExactSemver(version: string): boolean {
+  return semver.valid(version.startsWith("v") ? version.slice(1) : version) !== null;
+}
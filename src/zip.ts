@@ -0,0 +1,374 @@
+import path from "path";
+import fs from "fs-extra";
+import { createReadStream, createWriteStream } from "fs";
+import { Readable, Transform, TransformCallback } from "stream";
+import { pipeline } from "node:stream/promises";
+import { createInflateRaw, inflateRawSync } from "zlib";
+import { consoleLogger } from "./logger.js";
+import { Logger } from "./types.js";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_SIZE = 22;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_LOCATOR_SIZE = 20;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const LOCAL_HEADER_SIZE = 30;
+const ZIP64_EXTRA_ID = 0x0001;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+const CREATOR_UNIX = 3;
+
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+export interface ZipEntry {
+  /** Path inside the archive, always with forward slashes */
+  name: string;
+  method: number;
+  flags: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+  /** Unix mode bits, when the archive was created on a unix system */
+  mode?: number;
+  mtime: Date;
+  isDirectory: boolean;
+  isSymlink: boolean;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index++) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = ~previous >>> 0;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/** Checks an entry's CRC-32 and size while it streams to disk */
+class ZipEntryVerifier extends Transform {
+  private crc = 0;
+  private size = 0;
+
+  constructor(private readonly entry: ZipEntry) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.crc = crc32(chunk, this.crc);
+    this.size += chunk.length;
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.size !== this.entry.size || this.crc !== this.entry.crc32) {
+      callback(new Error(`Corrupt zip entry ${this.entry.name}: size or CRC-32 mismatch`));
+      return;
+    }
+    callback();
+  }
+}
+
+function dosDateTimeToDate(date: number, time: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/** Finds the central directory through the (ZIP64) end of central directory record */
+async function readCentralDirectoryLocation(
+  handle: fs.promises.FileHandle,
+  fileSize: number
+): Promise<{ offset: number; size: number; count: number }> {
+  const tailSize = Math.min(fileSize, EOCD_SIZE + MAX_COMMENT_SIZE);
+  const tailStart = fileSize - tailSize;
+  const tail = await readAt(handle, tailStart, tailSize);
+
+  let eocd = -1;
+  for (let index = tail.length - EOCD_SIZE; index >= 0; index--) {
+    if (tail.readUInt32LE(index) === EOCD_SIGNATURE) {
+      eocd = index;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a zip file: end of central directory record not found");
+  }
+
+  let count = tail.readUInt16LE(eocd + 10);
+  let size = tail.readUInt32LE(eocd + 12);
+  let offset = tail.readUInt32LE(eocd + 16);
+
+  const locator = eocd - ZIP64_LOCATOR_SIZE;
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64Offset = Number(tail.readBigUInt64LE(locator + 8));
+    const zip64 = await readAt(handle, zip64Offset, 56);
+    if (zip64.length < 56 || zip64.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error("Corrupt zip file: invalid ZIP64 end of central directory record");
+    }
+    count = Number(zip64.readBigUInt64LE(32));
+    size = Number(zip64.readBigUInt64LE(40));
+    offset = Number(zip64.readBigUInt64LE(48));
+  }
+
+  return { offset, size, count };
+}
+
+/** Lists the entries of a zip file from its central directory */
+export async function readZipEntries(filePath: string): Promise<ZipEntry[]> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const { size: fileSize } = await handle.stat();
+    const location = await readCentralDirectoryLocation(handle, fileSize);
+    const directory = await readAt(handle, location.offset, location.size);
+
+    const entries: ZipEntry[] = [];
+    let position = 0;
+    for (let index = 0; index < location.count; index++) {
+      if (
+        position + CENTRAL_HEADER_SIZE > directory.length ||
+        directory.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE
+      ) {
+        throw new Error("Corrupt zip file: invalid central directory");
+      }
+
+      const versionMadeBy = directory.readUInt16LE(position + 4);
+      const flags = directory.readUInt16LE(position + 8);
+      const nameLength = directory.readUInt16LE(position + 28);
+      const extraLength = directory.readUInt16LE(position + 30);
+      const commentLength = directory.readUInt16LE(position + 32);
+      const externalAttributes = directory.readUInt32LE(position + 38);
+      const nameStart = position + CENTRAL_HEADER_SIZE;
+      const rawName = directory.subarray(nameStart, nameStart + nameLength);
+      const name = rawName
+        .toString(flags & FLAG_UTF8 ? "utf8" : "latin1")
+        .replace(/\\/g, "/");
+
+      let size = directory.readUInt32LE(position + 24);
+      let compressedSize = directory.readUInt32LE(position + 20);
+      let localHeaderOffset = directory.readUInt32LE(position + 42);
+
+      // ZIP64 values are only present for fields saturated in the fixed header
+      const extraEnd = nameStart + nameLength + extraLength;
+      for (let extra = nameStart + nameLength; extra + 4 <= extraEnd; ) {
+        const id = directory.readUInt16LE(extra);
+        const length = directory.readUInt16LE(extra + 2);
+        if (id === ZIP64_EXTRA_ID) {
+          let field = extra + 4;
+          if (size === 0xffffffff) {
+            size = Number(directory.readBigUInt64LE(field));
+            field += 8;
+          }
+          if (compressedSize === 0xffffffff) {
+            compressedSize = Number(directory.readBigUInt64LE(field));
+            field += 8;
+          }
+          if (localHeaderOffset === 0xffffffff) {
+            localHeaderOffset = Number(directory.readBigUInt64LE(field));
+          }
+        }
+        extra += 4 + length;
+      }
+
+      const unixMode =
+        versionMadeBy >> 8 === CREATOR_UNIX ? externalAttributes >>> 16 : 0;
+      entries.push({
+        name,
+        method: directory.readUInt16LE(position + 10),
+        flags,
+        crc32: directory.readUInt32LE(position + 16),
+        compressedSize,
+        size,
+        localHeaderOffset,
+        mode: unixMode ? unixMode & 0o7777 : undefined,
+        mtime: dosDateTimeToDate(
+          directory.readUInt16LE(position + 14),
+          directory.readUInt16LE(position + 12)
+        ),
+        isDirectory: name.endsWith("/") || (unixMode & S_IFMT) === S_IFDIR,
+        isSymlink: (unixMode & S_IFMT) === S_IFLNK,
+      });
+      position = extraEnd + commentLength;
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Turns an entry name into a path below `destination` the way `tar` does:
+ * leading roots are stripped and names containing ".." are refused.
+ */
+function resolveEntryPath(
+  destination: string,
+  name: string,
+  logger: Logger
+): string | undefined {
+  const stripped = name.replace(/^([a-zA-Z]:)?\/+/, "");
+  if (stripped !== name) {
+    logger.warn(`Stripping absolute root from zip entry: ${name}`);
+  }
+
+  const parts = stripped.split("/").filter((part) => part && part !== ".");
+  if (parts.includes("..")) {
+    logger.warn(`Skipping zip entry with ".." in its path: ${name}`);
+    return undefined;
+  }
+  if (parts.length === 0) {
+    return undefined;
+  }
+
+  const root = path.resolve(destination);
+  const entryPath = path.resolve(root, ...parts);
+  return entryPath.startsWith(`${root}${path.sep}`) ? entryPath : undefined;
+}
+
+async function getEntryDataOffset(
+  handle: fs.promises.FileHandle,
+  entry: ZipEntry
+): Promise<number> {
+  const header = await readAt(handle, entry.localHeaderOffset, LOCAL_HEADER_SIZE);
+  if (header.length < LOCAL_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt zip file: invalid local header for ${entry.name}`);
+  }
+  return (
+    entry.localHeaderOffset +
+    LOCAL_HEADER_SIZE +
+    header.readUInt16LE(26) +
+    header.readUInt16LE(28)
+  );
+}
+
+function assertSupportedEntry(entry: ZipEntry): void {
+  if (entry.flags & FLAG_ENCRYPTED) {
+    throw new Error(`Encrypted zip entries are not supported: ${entry.name}`);
+  }
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+    throw new Error(
+      `Unsupported compression method ${entry.method} for zip entry ${entry.name}`
+    );
+  }
+}
+
+function openEntryStream(filePath: string, entry: ZipEntry, dataOffset: number) {
+  // createReadStream's end is inclusive, so an empty entry needs no read at all
+  if (entry.compressedSize === 0) {
+    return [Readable.from([])];
+  }
+  const source = createReadStream(filePath, {
+    start: dataOffset,
+    end: dataOffset + entry.compressedSize - 1,
+  });
+  return entry.method === METHOD_DEFLATED ? [source, createInflateRaw()] : [source];
+}
+
+// Symlink targets are tiny, so they are read in one go rather than streamed
+async function readEntry(
+  handle: fs.promises.FileHandle,
+  entry: ZipEntry,
+  dataOffset: number
+): Promise<Buffer> {
+  const compressed = await readAt(handle, dataOffset, entry.compressedSize);
+  const data = entry.method === METHOD_DEFLATED ? inflateRawSync(compressed) : compressed;
+  if (data.length !== entry.size || crc32(data) !== entry.crc32) {
+    throw new Error(`Corrupt zip entry ${entry.name}: size or CRC-32 mismatch`);
+  }
+  return data;
+}
+
+/**
+ * Extracts a zip file into `destination`, streaming each entry through
+ * inflate and checking its CRC-32. Unix permission bits and symlinks are
+ * restored, and entries that would land outside `destination` (absolute
+ * paths, "..", or paths through an extracted symlink) are skipped.
+ */
+export async function extractZipFile(
+  filePath: string,
+  destination: string,
+  logger: Logger = consoleLogger
+): Promise<void> {
+  await fs.ensureDir(destination);
+  const entries = await readZipEntries(filePath);
+  const symlinks: string[] = [];
+  const directoryModes = new Map<string, number>();
+
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    for (const entry of entries) {
+      const entryPath = resolveEntryPath(destination, entry.name, logger);
+      if (!entryPath) {
+        continue;
+      }
+      if (symlinks.some((link) => entryPath.startsWith(`${link}${path.sep}`))) {
+        logger.warn(`Skipping zip entry that extracts through a symbolic link: ${entry.name}`);
+        continue;
+      }
+
+      if (entry.isDirectory) {
+        await fs.ensureDir(entryPath);
+        if (entry.mode !== undefined) {
+          directoryModes.set(entryPath, entry.mode);
+        }
+        continue;
+      }
+
+      await fs.ensureDir(path.dirname(entryPath));
+      await fs.remove(entryPath);
+      assertSupportedEntry(entry);
+      const dataOffset = await getEntryDataOffset(handle, entry);
+
+      if (entry.isSymlink) {
+        const target = (await readEntry(handle, entry, dataOffset)).toString("utf8");
+        await fs.symlink(target, entryPath);
+        symlinks.push(entryPath);
+        continue;
+      }
+
+      await pipeline([
+        ...openEntryStream(filePath, entry, dataOffset),
+        new ZipEntryVerifier(entry),
+        createWriteStream(entryPath, { mode: entry.mode ?? 0o666 }),
+      ]);
+      await fs.utimes(entryPath, entry.mtime, entry.mtime);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  // Applied last so read-only directories can still be filled
+  for (const [directory, mode] of directoryModes) {
+    await fs.chmod(directory, mode & ~process.umask());
+  }
+}
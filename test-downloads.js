@@ -97,6 +97,17 @@ const testConfigs = [
       { platform: 'linux', arch: 'x64' },
       { platform: 'linux', arch: 'arm64' },
     ]
+  },
+  // Deno configurations
+  {
+    type: 'deno',
+    platforms: [
+      { platform: 'win32', arch: 'x64' },
+      { platform: 'darwin', arch: 'x64' },
+      { platform: 'darwin', arch: 'arm64' },
+      { platform: 'linux', arch: 'x64' },
+      { platform: 'linux', arch: 'arm64' },
+    ]
   }
 ];
 
@@ -465,6 +476,14 @@ const RTK_PLATFORM = {
   'arm64-darwin': { target: 'aarch64-apple-darwin', ext: 'tar.gz' },
 };
 
+const DENO_PLATFORM = {
+  'x64-win32': 'x86_64-pc-windows-msvc',
+  'x64-linux': 'x86_64-unknown-linux-gnu',
+  'arm64-linux': 'aarch64-unknown-linux-gnu',
+  'x64-darwin': 'x86_64-apple-darwin',
+  'arm64-darwin': 'aarch64-apple-darwin',
+};
+
 const RTK_SUPPORTED_PLATFORMS =
   'darwin-x64, darwin-arm64, linux-x64, linux-arm64, win32-x64';
 const RTK_RELEASE_API = 'https://api.github.com/repos/rtk-ai/rtk/releases/latest';
@@ -585,6 +604,12 @@ function generateDownloadUrl(type, platform, arch, version) {
   } else if (type === 'rtk') {
     const fileName = getRtkAssetName(platform, arch);
     return `https://github.com/rtk-ai/rtk/releases/download/${normalizeRtkVersion(version)}/${fileName}`;
+  } else if (type === 'deno') {
+    const target = DENO_PLATFORM[`${arch}-${platform}`];
+    if (!target) {
+      throw new Error(`Unsupported platform for Deno: ${platform}-${arch}`);
+    }
+    return `https://github.com/denoland/deno/releases/download/${version}/deno-${target}.zip`;
   }
   throw new Error(`Unknown runtime type: ${type}`);
 }
@@ -885,6 +910,7 @@ function getDefaultVersion(type) {
     ripgrep: '14.1.1',
     python: '3.12.12+20251217',
     rtk: 'latest',
+    deno: 'v2.5.6',
   };
   return defaultVersions[type];
 }
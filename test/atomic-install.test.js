@@ -0,0 +1,91 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "fs-extra";
+import { RuntimeInjector } from "../dist/index.js";
+import { createArchive, createTempDir } from "./helpers.js";
+
+function install(targetDir, version, archive) {
+  return new RuntimeInjector({
+    type: "rtk",
+    version,
+    platform: "linux",
+    arch: "x64",
+    targetDir,
+    archivePath: archive.archivePath,
+    expectedSha256: archive.sha256,
+    cacheDir: false,
+    cleanup: false,
+    offline: true,
+  }).inject();
+}
+
+test("keeps the previous runtime when extraction fails", async (t) => {
+  const dir = await createTempDir(t, "tri-atomic-");
+  const targetDir = path.join(dir, "runtime", "rtk");
+  const goodArchive = await createArchive(
+    dir,
+    { rtk: '#!/bin/sh\necho "rtk 0.30.0"\n' },
+    { name: "good" }
+  );
+  const brokenArchive = await createArchive(
+    dir,
+    { "README.md": "no executable here" },
+    { name: "broken" }
+  );
+
+  await install(targetDir, "v0.30.0", goodArchive);
+  await assert.rejects(
+    () => install(targetDir, "v0.31.0", brokenArchive),
+    /Could not find rtk in extracted files/
+  );
+
+  assert.equal(
+    (await fs.readJson(path.join(targetDir, "rtk_linux_x64"))).version,
+    "v0.30.0"
+  );
+  assert.ok(await fs.pathExists(path.join(targetDir, "rtk")));
+  assert.deepEqual(await fs.readdir(path.dirname(targetDir)), ["rtk"]);
+});
+
+test("swaps the staged runtime in place of the previous one", async (t) => {
+  const dir = await createTempDir(t, "tri-atomic-");
+  const targetDir = path.join(dir, "runtime", "rtk");
+  const firstArchive = await createArchive(
+    dir,
+    { rtk: '#!/bin/sh\necho "rtk 0.30.0"\n' },
+    { name: "first" }
+  );
+  const secondArchive = await createArchive(
+    dir,
+    { rtk: '#!/bin/sh\necho "rtk 0.31.0"\n' },
+    { name: "second" }
+  );
+
+  await install(targetDir, "v0.30.0", firstArchive);
+  await fs.writeFile(path.join(targetDir, "stale-file"), "left over");
+  const result = await install(targetDir, "v0.31.0", secondArchive);
+
+  assert.equal(result.status, "installed");
+  assert.equal(await fs.pathExists(path.join(targetDir, "stale-file")), false);
+  assert.equal(
+    (await fs.readJson(path.join(targetDir, "rtk_linux_x64"))).version,
+    "v0.31.0"
+  );
+  assert.deepEqual(await fs.readdir(path.dirname(targetDir)), ["rtk"]);
+});
+
+test(
+  "gives the installed runtime directory the umask's default mode",
+  { skip: process.platform === "win32" },
+  async (t) => {
+    const dir = await createTempDir(t, "tri-atomic-");
+    const targetDir = path.join(dir, "runtime", "rtk");
+    const archive = await createArchive(dir, { rtk: '#!/bin/sh\necho "rtk 0.30.0"\n' });
+
+    await install(targetDir, "v0.30.0", archive);
+    const mode = (await fs.stat(targetDir)).mode & 0o777;
+    assert.equal(mode, 0o777 & ~process.umask());
+    assert.equal(mode, (await fs.stat(path.dirname(targetDir))).mode & 0o777);
+  }
+);
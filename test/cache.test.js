@@ -0,0 +1,98 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "fs-extra";
+import { DownloadCache, RuntimeInjector, resolveCacheDir } from "../dist/index.js";
+import { createTempDir, sha256 } from "./helpers.js";
+
+const URL_A = "https://github.com/astral-sh/uv/releases/download/0.9.18/uv-x86_64-unknown-linux-gnu.tar.gz";
+const URL_B = "https://mirror.example.com/uv/0.9.18/uv-x86_64-unknown-linux-gnu.tar.gz";
+
+async function storeArchive(cache, dir, url, content) {
+  const filePath = path.join(dir, "download.tar.gz");
+  await fs.writeFile(filePath, content);
+  await cache.store(url, filePath, sha256(content));
+}
+
+test("resolves the cache dir from the option, then the env var", (t) => {
+  const previous = process.env.TINY_RUNTIME_INJECTOR_CACHE_DIR;
+  t.after(() => {
+    if (previous === undefined) {
+      delete process.env.TINY_RUNTIME_INJECTOR_CACHE_DIR;
+    } else {
+      process.env.TINY_RUNTIME_INJECTOR_CACHE_DIR = previous;
+    }
+  });
+
+  process.env.TINY_RUNTIME_INJECTOR_CACHE_DIR = "/tmp/from-env";
+  assert.equal(resolveCacheDir("/tmp/from-option"), "/tmp/from-option");
+  assert.equal(resolveCacheDir(), "/tmp/from-env");
+  assert.equal(resolveCacheDir(false), undefined);
+
+  process.env.TINY_RUNTIME_INJECTOR_CACHE_DIR = "off";
+  assert.equal(resolveCacheDir(), undefined);
+});
+
+test("looks up archives by URL and by content hash", async (t) => {
+  const dir = await createTempDir(t, "tri-cache-");
+  const cache = new DownloadCache(path.join(dir, "cache"));
+  await storeArchive(cache, dir, URL_A, "uv archive");
+
+  assert.ok(await cache.lookup(URL_A));
+  assert.ok(await cache.lookup(URL_B, sha256("uv archive")));
+  assert.equal(await cache.lookup(URL_B), undefined);
+  assert.equal(await cache.lookup(URL_A, sha256("other archive")), undefined);
+});
+
+test("evicts cached archives whose content no longer matches", async (t) => {
+  const dir = await createTempDir(t, "tri-cache-");
+  const cache = new DownloadCache(path.join(dir, "cache"));
+  await storeArchive(cache, dir, URL_A, "uv archive");
+
+  const cachedPath = await cache.lookup(URL_A);
+  await fs.writeFile(cachedPath, "corrupted");
+
+  assert.equal(await cache.lookup(URL_A), undefined);
+  assert.equal(await fs.pathExists(cachedPath), false);
+});
+
+test("lists, prunes and cleans cache entries", async (t) => {
+  const dir = await createTempDir(t, "tri-cache-");
+  const cache = new DownloadCache(path.join(dir, "cache"));
+  await storeArchive(cache, dir, URL_A, "uv archive");
+  await storeArchive(cache, dir, URL_B, "mirrored archive");
+
+  const entries = await cache.list();
+  assert.deepEqual(
+    entries.map((entry) => entry.url),
+    [URL_A, URL_B]
+  );
+  assert.equal(entries[0].fileName, "uv-x86_64-unknown-linux-gnu.tar.gz");
+
+  assert.equal((await cache.prune({ maxAgeDays: 1 })).length, 0);
+  assert.equal((await cache.prune({ maxAgeDays: -1 })).length, 2);
+  assert.deepEqual(await cache.list(), []);
+
+  await cache.clean();
+  assert.equal(await fs.pathExists(cache.dir), false);
+});
+
+test("downloadFile serves verified archives from the cache", async (t) => {
+  const dir = await createTempDir(t, "tri-cache-");
+  const cacheDir = path.join(dir, "cache");
+  await storeArchive(new DownloadCache(cacheDir), dir, URL_A, "uv archive");
+
+  const injector = new RuntimeInjector({
+    type: "uv",
+    version: "0.9.18",
+    platform: "linux",
+    arch: "x64",
+    targetDir: path.join(dir, "uv"),
+    cacheDir,
+    expectedSha256: sha256("uv archive"),
+  });
+  const destination = path.join(dir, "downloaded.tar.gz");
+  await injector.downloadFile(URL_A, destination);
+
+  assert.equal(await fs.readFile(destination, "utf8"), "uv archive");
+});
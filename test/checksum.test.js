@@ -0,0 +1,200 @@
+import test, { mock } from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import fs from "fs-extra";
+import axios from "axios";
+import { RuntimeInjector } from "../dist/index.js";
+import { findChecksum, resolveChecksumUrl } from "../dist/checksum.js";
+import { createTempDir, sha256 } from "./helpers.js";
+
+const NODE_URL =
+  "https://nodejs.org/dist/v24.12.0/node-v24.12.0-linux-x64.tar.gz";
+
+async function writeArchive(t, content) {
+  const dir = await createTempDir(t, "tri-checksum-");
+  const filePath = path.join(dir, "archive.tar.gz");
+  await fs.writeFile(filePath, content);
+  return filePath;
+}
+
+function createInjector(options = {}) {
+  return new RuntimeInjector({
+    type: "node",
+    version: "v24.12.0",
+    platform: "linux",
+    arch: "x64",
+    targetDir: path.join(os.tmpdir(), "tiny-runtime-injector-checksum-test"),
+    ...options,
+  });
+}
+
+test("finds the matching entry in a SHASUMS-style manifest", () => {
+  const hash = "a".repeat(64);
+  const content = [
+    `${"b".repeat(64)}  node-v24.12.0-darwin-arm64.tar.gz`,
+    `${hash}  node-v24.12.0-linux-x64.tar.gz`,
+  ].join("\n");
+
+  assert.equal(findChecksum(content, "node-v24.12.0-linux-x64.tar.gz"), hash);
+  assert.equal(findChecksum(content, "node-v24.12.0-win-x64.zip"), undefined);
+});
+
+test("accepts binary-mode markers and bare hashes in sidecar files", () => {
+  const hash = "C".repeat(64);
+
+  assert.equal(
+    findChecksum(`${hash} *uv-x86_64-unknown-linux-gnu.tar.gz\n`, "uv-x86_64-unknown-linux-gnu.tar.gz"),
+    hash.toLowerCase()
+  );
+  assert.equal(findChecksum(`${hash}\n`, "rg.tar.gz"), hash.toLowerCase());
+});
+
+test("reads PowerShell Get-FileHash tables", () => {
+  const hash = "D".repeat(64);
+  const content = [
+    "Algorithm       Hash                                                                   Path",
+    "---------       ----                                                                   ----",
+    `SHA256          ${hash}       D:\\a\\deno\\deno\\target\\release\\deno-x86_64-pc-windows-msvc.zip`,
+  ].join("\r\n");
+
+  assert.equal(findChecksum(content, "deno-x86_64-pc-windows-msvc.zip"), hash.toLowerCase());
+});
+
+test("reads PowerShell Get-FileHash lists, also when written as UTF-16", () => {
+  const hash = "E".repeat(64);
+  const content = [
+    "",
+    "Algorithm : SHA256",
+    `Hash      : ${hash}`,
+    "Path      : D:\\a\\deno\\deno\\target\\release\\deno-x86_64-pc-windows-msvc.zip",
+    "",
+    "",
+  ].join("\r\n");
+  const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(content, "utf16le")]);
+
+  assert.equal(findChecksum(content, "deno-x86_64-pc-windows-msvc.zip"), hash.toLowerCase());
+  assert.equal(findChecksum(content, "deno-aarch64-pc-windows-msvc.zip"), undefined);
+  assert.equal(
+    findChecksum(utf16.toString("utf8"), "deno-x86_64-pc-windows-msvc.zip"),
+    hash.toLowerCase()
+  );
+});
+
+test("fetches Deno checksums from the .sha256sum sidecar", async (t) => {
+  const archivePath = await writeArchive(t, "deno archive");
+  const getMock = mock.method(axios, "get", async () => ({
+    data: `${sha256("deno archive")}  deno-aarch64-apple-darwin.zip\n`,
+  }));
+  t.after(() => getMock.mock.restore());
+
+  const injector = createInjector({ type: "deno", version: "2.5.6", platform: "darwin", arch: "arm64" });
+  await injector.resolveVersion();
+  const downloadUrl = injector.getDownloadUrl();
+  await injector.verifyChecksum(downloadUrl, archivePath);
+
+  assert.equal(
+    downloadUrl,
+    "https://github.com/denoland/deno/releases/download/v2.5.6/deno-aarch64-apple-darwin.zip"
+  );
+  assert.equal(getMock.mock.calls[0].arguments[0], `${downloadUrl}.sha256sum`);
+});
+
+test("verifies Windows Deno downloads against the Format-List sidecar", async (t) => {
+  const archivePath = await writeArchive(t, "deno archive");
+  const getMock = mock.method(axios, "get", async () => ({
+    data: [
+      "",
+      "Algorithm : SHA256",
+      `Hash      : ${sha256("deno archive").toUpperCase()}`,
+      "Path      : D:\\a\\deno\\deno\\target\\release\\deno-x86_64-pc-windows-msvc.zip",
+      "",
+    ].join("\r\n"),
+  }));
+  t.after(() => getMock.mock.restore());
+
+  const injector = createInjector({ type: "deno", version: "2.5.6", platform: "win32", arch: "x64" });
+  await injector.resolveVersion();
+  const actual = await injector.verifyChecksum(injector.getDownloadUrl(), archivePath);
+
+  assert.equal(actual, sha256("deno archive"));
+});
+
+test("resolves checksum URLs relative to the download URL", () => {
+  assert.equal(
+    resolveChecksumUrl({ kind: "manifest", fileName: "SHASUMS256.txt" }, NODE_URL),
+    "https://nodejs.org/dist/v24.12.0/SHASUMS256.txt"
+  );
+  assert.equal(
+    resolveChecksumUrl({ kind: "sidecar", suffix: ".sha256" }, NODE_URL),
+    `${NODE_URL}.sha256`
+  );
+});
+
+test("verifies downloads against the published checksum manifest", async (t) => {
+  const archivePath = await writeArchive(t, "node archive");
+  const getMock = mock.method(axios, "get", async () => ({
+    data: `${sha256("node archive")}  node-v24.12.0-linux-x64.tar.gz\n`,
+  }));
+  t.after(() => getMock.mock.restore());
+
+  const injector = createInjector();
+  const actual = await injector.verifyChecksum(NODE_URL, archivePath);
+
+  assert.equal(actual, sha256("node archive"));
+  assert.equal(
+    getMock.mock.calls[0].arguments[0],
+    "https://nodejs.org/dist/v24.12.0/SHASUMS256.txt"
+  );
+});
+
+test("fails and removes the archive on a checksum mismatch", async (t) => {
+  const archivePath = await writeArchive(t, "tampered archive");
+  const getMock = mock.method(axios, "get", async () => ({
+    data: `${sha256("node archive")}  node-v24.12.0-linux-x64.tar.gz\n`,
+  }));
+  t.after(() => getMock.mock.restore());
+
+  const injector = createInjector();
+
+  await assert.rejects(
+    () => injector.verifyChecksum(NODE_URL, archivePath),
+    (error) =>
+      error.code === "CHECKSUM_MISMATCH" &&
+      error.expected === sha256("node archive") &&
+      error.actual === sha256("tampered archive") &&
+      /Checksum mismatch/.test(error.message)
+  );
+  assert.equal(await fs.pathExists(archivePath), false);
+});
+
+test("reports a checksum manifest without the asset as a download error", async (t) => {
+  const archivePath = await writeArchive(t, "node archive");
+  const getMock = mock.method(axios, "get", async () => ({
+    data: `${sha256("node archive")}  node-v24.12.0-darwin-arm64.tar.gz\n`,
+  }));
+  t.after(() => getMock.mock.restore());
+
+  await assert.rejects(
+    () => createInjector().verifyChecksum(NODE_URL, archivePath),
+    (error) =>
+      error.code === "DOWNLOAD_FAILED" &&
+      error.url === "https://nodejs.org/dist/v24.12.0/SHASUMS256.txt" &&
+      /Checksum for node-v24.12.0-linux-x64.tar.gz not found/.test(error.message)
+  );
+});
+
+test("uses expectedSha256 without fetching the upstream checksum", async (t) => {
+  const archivePath = await writeArchive(t, "pinned archive");
+  const getMock = mock.method(axios, "get", async () => {
+    throw new Error("unexpected network access");
+  });
+  t.after(() => getMock.mock.restore());
+
+  const injector = createInjector({
+    expectedSha256: sha256("pinned archive").toUpperCase(),
+  });
+  await injector.verifyChecksum(NODE_URL, archivePath);
+
+  assert.equal(getMock.mock.calls.length, 0);
+});
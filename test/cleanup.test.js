@@ -0,0 +1,227 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "fs-extra";
+import { RuntimeInjector } from "../dist/index.js";
+import { createArchive, createTempDir, registerTool } from "./helpers.js";
+
+const PYTHON_FILES = [
+  "bin/python3",
+  "lib/python3.12/os.py",
+  "lib/python3.12/__pycache__/os.cpython-312.pyc",
+  "lib/python3.12/test/test_os.py",
+  "lib/python3.12/idlelib/idle_test/test_run.py",
+  "lib/python3.12/tkinter/__init__.py",
+  "lib/python3.12/ensurepip/_bundled/pip-24.3.1-py3-none-any.whl",
+  "lib/tcl8.6/init.tcl",
+  "include/python3.12/Python.h",
+];
+
+async function createRuntimeArchive(dir, rootDir, files) {
+  const archive = await createArchive(
+    dir,
+    Object.fromEntries(files.map((file) => [path.posix.join(rootDir, file), `${file}\n`]))
+  );
+  return { archivePath: archive.archivePath, expectedSha256: archive.sha256 };
+}
+
+const NODE_FILES = [
+  "bin/node",
+  "README.md",
+  "include/node/node.h",
+  "include/uv/uv.h",
+  "share/man/man1/node.1",
+  "lib/node_modules/npm/index.js",
+  "lib/node_modules/npm/index.js.map",
+];
+
+async function installNode(dir, cleanup) {
+  const { targetDir } = await injectNode(dir, cleanup);
+  return targetDir;
+}
+
+async function injectNode(dir, cleanup) {
+  const archive = await createRuntimeArchive(dir, "node-v24.12.0-linux-x64", NODE_FILES);
+  const targetDir = path.join(dir, "runtime", "node");
+  const result = await new RuntimeInjector({
+    type: "node",
+    version: "v24.12.0",
+    platform: "linux",
+    arch: "x64",
+    targetDir,
+    ...archive,
+    cacheDir: false,
+    offline: true,
+    cleanup,
+  }).inject();
+  return { targetDir, result };
+}
+
+async function listFiles(targetDir, files) {
+  const remaining = [];
+  for (const file of files) {
+    if (await fs.pathExists(path.join(targetDir, file))) {
+      remaining.push(file);
+    }
+  }
+  return remaining;
+}
+
+async function installPython(dir, cleanup) {
+  const archive = await createRuntimeArchive(dir, "python", PYTHON_FILES);
+  const targetDir = path.join(dir, "runtime", "python");
+  await new RuntimeInjector({
+    type: "python",
+    version: "3.12.12+20251217",
+    platform: "linux",
+    arch: "x64",
+    targetDir,
+    ...archive,
+    cacheDir: false,
+    offline: true,
+    cleanup,
+  }).inject();
+
+  return listFiles(targetDir, PYTHON_FILES);
+}
+
+test("strips the Python test suites by default", async (t) => {
+  const dir = await createTempDir(t, "tri-cleanup-");
+  const remaining = await installPython(dir, true);
+
+  assert.deepEqual(
+    remaining,
+    PYTHON_FILES.filter((file) => !file.includes("test"))
+  );
+});
+
+test("the minimal Python profile also drops GUI modules, caches and headers", async (t) => {
+  const dir = await createTempDir(t, "tri-cleanup-");
+  const remaining = await installPython(dir, { profile: "minimal" });
+
+  assert.deepEqual(remaining, ["bin/python3", "lib/python3.12/os.py"]);
+});
+
+test("applies the Node.js cleanup switches on Linux and prunes emptied directories", async (t) => {
+  const dir = await createTempDir(t, "tri-cleanup-");
+  const targetDir = await installNode(dir, true);
+
+  assert.deepEqual(await listFiles(targetDir, NODE_FILES), [
+    "bin/node",
+    "lib/node_modules/npm/index.js",
+  ]);
+  assert.equal(await fs.pathExists(path.join(targetDir, "include")), false);
+  assert.equal(await fs.pathExists(path.join(targetDir, "share")), false);
+});
+
+test("keep patterns and disabled switches preserve files", async (t) => {
+  const dir = await createTempDir(t, "tri-cleanup-");
+  const targetDir = await installNode(dir, {
+    removeDocs: false,
+    customRules: [{ pattern: "!include/node" }],
+  });
+
+  assert.deepEqual(await listFiles(targetDir, NODE_FILES), [
+    "bin/node",
+    "README.md",
+    "include/node/node.h",
+    "share/man/man1/node.1",
+    "lib/node_modules/npm/index.js",
+  ]);
+});
+
+test("reports what cleanup removes, grouped by rule", async (t) => {
+  const dir = await createTempDir(t, "tri-cleanup-");
+  const { result } = await injectNode(dir, { removeDocs: false });
+
+  assert.equal(result.status, "installed");
+  const report = result.cleanup;
+  assert.equal(report.dryRun, false);
+  const headers = report.rules.find((rule) => rule.pattern === "**/*.h");
+  assert.deepEqual(headers.files, [
+    path.join("include", "node", "node.h"),
+    path.join("include", "uv", "uv.h"),
+  ]);
+  assert.equal(headers.description, "development files");
+  assert.equal(headers.bytes, "include/node/node.h\n".length + "include/uv/uv.h\n".length);
+  // Files already claimed by "**/*.h" are not counted again under "include/**"
+  assert.deepEqual(report.rules.find((rule) => rule.pattern === "include/**").files, []);
+  assert.equal(report.sizeAfter, report.sizeBefore - report.bytesSaved);
+});
+
+test("a cleanup dry run reports without installing anything", async (t) => {
+  const dir = await createTempDir(t, "tri-cleanup-");
+  const { targetDir, result } = await injectNode(dir, { dryRun: true });
+
+  assert.equal(result.status, "dry-run");
+  assert.equal(result.cleanup.dryRun, true);
+  assert.ok(result.cleanup.bytesSaved > 0);
+  assert.deepEqual(
+    result.cleanup.rules.find((rule) => rule.pattern === "share/**").files,
+    [path.join("share", "man", "man1", "node.1")]
+  );
+  assert.equal(await fs.pathExists(targetDir), false);
+  assert.deepEqual(await fs.readdir(path.dirname(targetDir)), []);
+});
+
+test("custom rules apply to every runtime type", async (t) => {
+  registerTool(t, { targets: { "x64-linux": "linux-amd64" } });
+
+  const dir = await createTempDir(t, "tri-cleanup-");
+  const archive = await createRuntimeArchive(dir, "", ["tool", "LICENSE", "docs/usage.txt"]);
+  const targetDir = path.join(dir, "runtime", "tool");
+
+  await new RuntimeInjector({
+    type: "tool",
+    platform: "linux",
+    arch: "x64",
+    targetDir,
+    ...archive,
+    cacheDir: false,
+    offline: true,
+    cleanup: { customRules: [{ pattern: "docs/**" }] },
+  }).inject();
+
+  assert.ok(await fs.pathExists(path.join(targetDir, "tool")));
+  assert.ok(await fs.pathExists(path.join(targetDir, "LICENSE")));
+  assert.equal(await fs.pathExists(path.join(targetDir, "docs", "usage.txt")), false);
+});
+
+test("the docs, dev file and source map switches are opt-in for other runtimes", async (t) => {
+  registerTool(t, { targets: { "x64-linux": "linux-amd64" } });
+  const files = ["tool", "README.md", "include/tool.h", "lib/tool.js", "lib/tool.js.map"];
+
+  const install = async (cleanup) => {
+    const dir = await createTempDir(t, "tri-cleanup-");
+    const targetDir = path.join(dir, "runtime", "tool");
+    await new RuntimeInjector({
+      type: "tool",
+      platform: "linux",
+      arch: "x64",
+      targetDir,
+      ...(await createRuntimeArchive(dir, "", files)),
+      cacheDir: false,
+      offline: true,
+      cleanup,
+    }).inject();
+    return listFiles(targetDir, files);
+  };
+
+  assert.deepEqual(await install(true), files);
+  assert.deepEqual(
+    await install({ removeDocs: true, removeDevFiles: true, removeSourceMaps: true }),
+    ["tool", "lib/tool.js"]
+  );
+});
+
+test("rejects cleanup profiles the runtime does not define", () => {
+  assert.throws(
+    () =>
+      new RuntimeInjector({
+        type: "bun",
+        targetDir: "runtime/bun",
+        cleanup: { profile: "minimal" },
+      }),
+    /Unknown cleanup profile "minimal" for bun\. Available profiles: default/
+  );
+});
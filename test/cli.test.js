@@ -0,0 +1,133 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import fs from "fs-extra";
+import { createArchive, createTempDir } from "./helpers.js";
+
+const CLI_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "dist", "cli.js");
+
+function runCli(args) {
+  return spawnSync(process.execPath, [CLI_PATH, ...args], { encoding: "utf8" });
+}
+
+test("exits with the offline code when offline mode needs the network", async (t) => {
+  const dir = await createTempDir(t, "tri-cli-");
+  const result = runCli([
+    "--type",
+    "rtk",
+    "--runtime-version",
+    "latest",
+    "--dir",
+    dir,
+    "--offline",
+    "--no-cache",
+  ]);
+
+  assert.equal(result.status, 11);
+  assert.match(result.stderr, /\[OFFLINE\] Offline mode: refusing to resolve the latest rtk release/);
+});
+
+test("exits with the lockfile code when a frozen lockfile has no entry", async (t) => {
+  const dir = await createTempDir(t, "tri-cli-");
+  const lockfile = path.join(dir, "runtimes.lock.json");
+  await fs.writeJson(lockfile, { lockfileVersion: 1, runtimes: {} });
+
+  const result = runCli([
+    "--type",
+    "rtk",
+    "--runtime-version",
+    "v0.30.0",
+    "--dir",
+    path.join(dir, "runtime"),
+    "--lockfile",
+    lockfile,
+    "--frozen",
+    "--offline",
+    "--no-cache",
+  ]);
+
+  assert.equal(result.status, 10);
+  assert.match(result.stderr, /\[LOCKFILE\] Frozen lockfile .* has no entry for rtk/);
+});
+
+test("exits with its own code when the local archive is missing", async (t) => {
+  const dir = await createTempDir(t, "tri-cli-");
+  const archivePath = path.join(dir, "missing.tar.gz");
+  const result = runCli([
+    "--type",
+    "rtk",
+    "--runtime-version",
+    "v0.30.0",
+    "--dir",
+    path.join(dir, "runtime"),
+    "--archive",
+    archivePath,
+    "--offline",
+    "--no-cache",
+  ]);
+
+  assert.equal(result.status, 12);
+  assert.match(result.stderr, /\[ARCHIVE_NOT_FOUND\] Local archive does not exist/);
+});
+
+test("exits with the verify code when no install record exists", async (t) => {
+  const dir = await createTempDir(t, "tri-cli-");
+  const result = runCli(["verify", "--type", "rtk", "--dir", path.join(dir, "rtk")]);
+
+  assert.equal(result.status, 14);
+  assert.match(result.stderr, /\[VERIFY_FAILED\] No rtk install record found/);
+});
+
+test("every subcommand accepts runtime types defined in the config file", async (t) => {
+  const dir = await createTempDir(t, "tri-cli-");
+  const config = path.join(dir, "runtime-config.json");
+  await fs.writeJson(config, {
+    runtimeDefinitions: {
+      tool: {
+        defaultVersion: "1.4.0",
+        downloadUrlTemplate: "https://downloads.example.com/tool/{version}/{fileName}",
+        fileNameTemplate: "tool-{version}-{target}.tar.gz",
+        targets: { [`${process.arch}-${process.platform}`]: "host" },
+        executable: "tool",
+      },
+    },
+  });
+  const archive = await createArchive(dir, { tool: "#!/bin/sh\necho 1.4.0\n" }, { name: "tool" });
+  const targetDir = path.join(dir, "runtime", "tool");
+  const common = ["-c", config, "--type", "tool", "--dir", targetDir];
+
+  const install = runCli([
+    ...common,
+    "--archive",
+    archive.archivePath,
+    "--expected-sha256",
+    archive.sha256,
+    "--offline",
+    "--no-cache",
+  ]);
+  assert.equal(install.status, 0, install.stderr);
+
+  const verify = runCli(["verify", ...common]);
+  assert.equal(verify.status, 0, verify.stderr);
+  assert.match(verify.stdout, /校验通过/);
+
+  const listVersions = runCli(["list-versions", ...common, "--offline"]);
+  assert.doesNotMatch(listVersions.stderr, /不支持的运行时类型/);
+  assert.match(listVersions.stderr, /tool does not publish a release list/);
+});
+
+test("reports cache failures with the command's error label", async (t) => {
+  const dir = await createTempDir(t, "tri-cli-");
+  // A file where the index directory belongs makes reading the cache fail
+  await fs.outputFile(path.join(dir, "cache", "index"), "");
+
+  const list = runCli(["--cache-dir", path.join(dir, "cache"), "cache", "list"]);
+  assert.equal(list.status, 1);
+  assert.match(list.stderr, /^读取缓存失败: .*ENOTDIR/m);
+
+  const prune = runCli(["--cache-dir", path.join(dir, "cache"), "cache", "prune"]);
+  assert.equal(prune.status, 1);
+  assert.match(prune.stderr, /^清理缓存失败: .*ENOTDIR/m);
+});
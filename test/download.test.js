@@ -0,0 +1,222 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import fs from "fs-extra";
+import {
+  HttpStatusError,
+  NetworkError,
+  RuntimeInjector,
+  createConsoleLogger,
+} from "../dist/index.js";
+import { createArchive, createTempDir, registerTool } from "./helpers.js";
+
+function createToolArchive(dir) {
+  return createArchive(
+    dir,
+    { tool: "#!/bin/sh\necho 1.4.0\n", "data.bin": randomBytes(128 * 1024) },
+    { name: "tool" }
+  );
+}
+
+/**
+ * Serves `content` with Range support. `handle(request, response, index)`
+ * may answer a request itself and return true to skip the default response.
+ */
+async function startServer(t, content, handle = () => false) {
+  const requests = [];
+  const server = http.createServer((request, response) => {
+    requests.push({ range: request.headers.range, ifRange: request.headers["if-range"] });
+    if (handle(request, response, requests.length - 1)) {
+      return;
+    }
+    const range = /^bytes=(\d+)-$/.exec(request.headers.range ?? "");
+    const start = range ? Number(range[1]) : 0;
+    const headers = { "Content-Length": content.length - start, ETag: '"v1"' };
+    if (range) {
+      headers["Content-Range"] = `bytes ${start}-${content.length - 1}/${content.length}`;
+    }
+    response.writeHead(range ? 206 : 200, headers);
+    response.end(content.subarray(start));
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(resolve));
+  });
+
+  registerTool(t, {
+    downloadUrlTemplate: `http://127.0.0.1:${server.address().port}/tool/{version}/{fileName}`,
+  });
+  return requests;
+}
+
+function half(content) {
+  return Math.floor(content.length / 2);
+}
+
+// Sends the first half of the body, then drops the connection
+function dropHalfway(content) {
+  return (request, response) => {
+    response.writeHead(200, { "Content-Length": content.length, ETag: '"v1"' });
+    response.write(content.subarray(0, half(content)), () => {
+      setTimeout(() => request.socket.destroy(), 50);
+    });
+    return true;
+  };
+}
+
+function injectTool(dir, archive, options = {}) {
+  return new RuntimeInjector({
+    type: "tool",
+    targetDir: path.join(dir, "runtime", "tool"),
+    expectedSha256: archive.sha256,
+    cacheDir: false,
+    noProxy: "127.0.0.1",
+    logger: createConsoleLogger("silent"),
+    ...options,
+    download: { retryDelay: 10, ...options.download },
+  }).inject();
+}
+
+test("retries a dropped download and resumes it with a Range request", async (t) => {
+  const dir = await createTempDir(t, "tri-download-");
+  const archive = await createToolArchive(dir);
+  const drop = dropHalfway(archive.content);
+  const requests = await startServer(t, archive.content, (request, response, index) =>
+    index === 0 ? drop(request, response) : false
+  );
+
+  const events = [];
+  const result = await injectTool(dir, archive, { onEvent: (event) => events.push(event) });
+
+  assert.equal(result.status, "installed");
+  assert.equal(requests.length, 2);
+  assert.equal(requests[0].range, undefined);
+  assert.equal(requests[1].range, `bytes=${half(archive.content)}-`);
+  assert.equal(requests[1].ifRange, '"v1"');
+  const downloads = events.filter((event) => event.phase === "download");
+  assert.equal(downloads.at(-1).bytes, archive.content.length);
+  assert.equal(downloads.at(-1).total, archive.content.length);
+});
+
+test("keeps interrupted downloads in the cache for the next install", async (t) => {
+  const dir = await createTempDir(t, "tri-download-");
+  const archive = await createToolArchive(dir);
+  const drop = dropHalfway(archive.content);
+  const requests = await startServer(t, archive.content, (request, response, index) =>
+    index === 0 ? drop(request, response) : false
+  );
+  const cacheDir = path.join(dir, "cache");
+
+  await assert.rejects(
+    injectTool(dir, archive, { cacheDir, download: { retries: 0 } }),
+    (error) => error instanceof NetworkError && error.attempts === 1
+  );
+  const partials = await fs.readdir(path.join(cacheDir, "partial"));
+  assert.equal(partials.length, 2);
+
+  assert.equal((await injectTool(dir, archive, { cacheDir })).status, "installed");
+  assert.equal(requests[1].range, `bytes=${half(archive.content)}-`);
+  assert.deepEqual(await fs.readdir(path.join(cacheDir, "partial")), []);
+});
+
+test("gives concurrent downloads of the same URL their own partial files", async (t) => {
+  const dir = await createTempDir(t, "tri-download-");
+  const archive = await createToolArchive(dir);
+  // Holds each response halfway so both downloads are in flight at once
+  await startServer(t, archive.content, (request, response) => {
+    response.writeHead(200, { "Content-Length": archive.content.length, ETag: '"v1"' });
+    response.write(archive.content.subarray(0, half(archive.content)));
+    setTimeout(() => response.end(archive.content.subarray(half(archive.content))), 200);
+    return true;
+  });
+  const cacheDir = path.join(dir, "cache");
+
+  const results = await Promise.all([
+    injectTool(path.join(dir, "first"), archive, { cacheDir }),
+    injectTool(path.join(dir, "second"), archive, { cacheDir }),
+  ]);
+  assert.deepEqual(
+    results.map((result) => result.status),
+    ["installed", "installed"]
+  );
+  assert.deepEqual(await fs.readdir(path.join(cacheDir, "partial")), []);
+});
+
+test("takes over the partial download of a process that exited", async (t) => {
+  const dir = await createTempDir(t, "tri-download-");
+  const archive = await createToolArchive(dir);
+  const drop = dropHalfway(archive.content);
+  const requests = await startServer(t, archive.content, (request, response, index) =>
+    index === 0 ? drop(request, response) : false
+  );
+  const cacheDir = path.join(dir, "cache");
+
+  await assert.rejects(injectTool(dir, archive, { cacheDir, download: { retries: 0 } }));
+  const [partial] = await fs.readdir(path.join(cacheDir, "partial"));
+  // No process has this pid, as if the download had crashed while holding the lock
+  await fs.writeJson(path.join(cacheDir, "partial", `${partial}.lock`), {
+    pid: 2 ** 22 + 1,
+    hostname: os.hostname(),
+  });
+
+  assert.equal((await injectTool(dir, archive, { cacheDir })).status, "installed");
+  assert.equal(requests[1].range, `bytes=${half(archive.content)}-`);
+  assert.deepEqual(await fs.readdir(path.join(cacheDir, "partial")), []);
+});
+
+test("retries server errors but not missing files", async (t) => {
+  const dir = await createTempDir(t, "tri-download-");
+  const archive = await createToolArchive(dir);
+  let status = 503;
+  const requests = await startServer(t, archive.content, (request, response, index) => {
+    if (index > 1) {
+      return false;
+    }
+    response.writeHead(status);
+    response.end();
+    return true;
+  });
+
+  assert.equal((await injectTool(dir, archive)).status, "installed");
+  assert.equal(requests.length, 3);
+
+  status = 404;
+  requests.length = 0;
+  await assert.rejects(
+    injectTool(path.join(dir, "second"), archive),
+    (error) =>
+      error instanceof HttpStatusError && error.status === 404 && error.attempts === 1
+  );
+  assert.equal(requests.length, 1);
+});
+
+test("gives up on a stalled download after the idle timeout", async (t) => {
+  const dir = await createTempDir(t, "tri-download-");
+  const archive = await createToolArchive(dir);
+  const requests = await startServer(t, archive.content, (request, response) => {
+    response.writeHead(200, { "Content-Length": archive.content.length });
+    response.write(archive.content.subarray(0, 1024));
+    return true;
+  });
+
+  await assert.rejects(
+    injectTool(dir, archive, { download: { retries: 1, idleTimeout: 200 } }),
+    (error) =>
+      error instanceof NetworkError &&
+      error.attempts === 2 &&
+      /No data received .* for 200 ms \(gave up after 2 attempts\)/.test(error.message)
+  );
+  assert.equal(requests.length, 2);
+});
+
+test("rejects invalid download options", () => {
+  assert.throws(
+    () =>
+      new RuntimeInjector({ type: "node", targetDir: "runtime/node", download: { retries: -1 } }),
+    /download\.retries must be a non-negative number/
+  );
+});
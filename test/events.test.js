@@ -0,0 +1,134 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import http from "node:http";
+import path from "node:path";
+import { RuntimeInjector, createConsoleLogger } from "../dist/index.js";
+import { createArchive, createTempDir, registerTool } from "./helpers.js";
+
+function createToolArchive(dir) {
+  return createArchive(
+    dir,
+    {
+      tool: "#!/bin/sh\necho 1.4.0\n",
+      // Incompressible, so the archive is large enough to download in several chunks
+      "docs/usage.md": randomBytes(256 * 1024),
+    },
+    { name: "tool" }
+  );
+}
+
+function createRecordingLogger() {
+  const messages = [];
+  const logger = {};
+  for (const level of ["debug", "info", "warn", "error"]) {
+    logger[level] = (message) => messages.push({ level, message });
+  }
+  return { logger, messages };
+}
+
+test("reports each install phase and routes logs to the given logger", async (t) => {
+  registerTool(t);
+  const dir = await createTempDir(t, "tri-events-");
+  const archive = await createToolArchive(dir);
+  const events = [];
+  const { logger, messages } = createRecordingLogger();
+
+  const options = {
+    type: "tool",
+    targetDir: path.join(dir, "runtime", "tool"),
+    archivePath: archive.archivePath,
+    expectedSha256: archive.sha256,
+    cacheDir: false,
+    offline: true,
+    cleanup: { customRules: [{ pattern: "docs/**" }] },
+    logger,
+    onEvent: (event) => events.push(event),
+  };
+  await new RuntimeInjector(options).inject();
+
+  assert.deepEqual(
+    events.map((event) => event.phase),
+    ["resolve", "verify", "download", "verify", "extract", "cleanup", "done"]
+  );
+  assert.deepEqual(events[0], {
+    type: "tool",
+    version: "1.4.0",
+    platform: process.platform,
+    arch: process.arch,
+    phase: "resolve",
+    requestedVersion: "1.4.0",
+  });
+  assert.equal(events[1].subject, "install");
+  assert.equal(events[2].source, "archive");
+  assert.equal(events[2].bytes, archive.content.length);
+  assert.equal(events[3].subject, "checksum");
+  assert.equal(events.at(-1).status, "installed");
+
+  assert.ok(
+    messages.some(
+      ({ level, message }) => level === "info" && /successfully installed/.test(message)
+    )
+  );
+  assert.ok(messages.some(({ level }) => level === "debug"));
+
+  events.length = 0;
+  await new RuntimeInjector(options).inject();
+  assert.deepEqual(
+    events.map((event) => event.phase),
+    ["resolve", "verify", "done"]
+  );
+  assert.equal(events.at(-1).status, "skipped");
+});
+
+test("reports download progress with totals and speed", async (t) => {
+  const dir = await createTempDir(t, "tri-events-");
+  const archive = await createToolArchive(dir);
+  const server = http.createServer((request, response) => {
+    response.writeHead(200, { "Content-Length": archive.content.length });
+    // Several writes so progress is reported while the body arrives
+    const chunkSize = 64 * 1024;
+    let offset = 0;
+    const writeNext = () => {
+      if (offset >= archive.content.length) {
+        response.end();
+        return;
+      }
+      response.write(archive.content.subarray(offset, offset + chunkSize));
+      offset += chunkSize;
+      setTimeout(writeNext, 120);
+    };
+    writeNext();
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  t.after(() => new Promise((resolve) => server.close(resolve)));
+
+  registerTool(t, {
+    downloadUrlTemplate: `http://127.0.0.1:${server.address().port}/tool/{version}/{fileName}`,
+  });
+  const events = [];
+  await new RuntimeInjector({
+    type: "tool",
+    targetDir: path.join(dir, "runtime", "tool"),
+    expectedSha256: archive.sha256,
+    cacheDir: false,
+    noProxy: "127.0.0.1",
+    logger: createConsoleLogger("silent"),
+    onEvent: (event) => events.push(event),
+  }).inject();
+
+  const downloads = events.filter((event) => event.phase === "download");
+  assert.ok(downloads.length > 2);
+  assert.ok(downloads.every((event) => event.source === "network"));
+  assert.ok(downloads.every((event) => event.total === archive.content.length));
+  assert.equal(downloads[0].bytes, 0);
+  assert.equal(downloads.at(-1).bytes, archive.content.length);
+  assert.ok(downloads.at(-1).bytesPerSecond > 0);
+  for (let index = 1; index < downloads.length; index++) {
+    assert.ok(downloads[index].bytes >= downloads[index - 1].bytes);
+  }
+});
+
+test("rejects unknown log levels", () => {
+  assert.throws(() => createConsoleLogger("verbose"), /Unknown log level "verbose"/);
+});
@@ -3,7 +3,7 @@ import assert from "node:assert/strict";
 import os from "node:os";
 import path from "node:path";
 import axios from "axios";
-import { RuntimeInjector } from "../dist/index.js";
+import { GitHubAuthError, GitHubRateLimitError, RuntimeInjector } from "../dist/index.js";
 
 const ENV_KEYS = [
   "GITHUB_TOKEN",
@@ -86,10 +86,10 @@ test("prefers GITHUB_TOKEN over GH_TOKEN for rtk latest lookup", async (t) => {
   t.after(() => getMock.mock.restore());
 
   const injector = createInjector();
-  const release = await injector.fetchLatestRtkRelease();
+  const [release] = await injector.fetchReleases(true);
   const [, requestConfig] = getMock.mock.calls[0].arguments;
 
-  assert.equal(release.tagName, "v0.30.0");
+  assert.equal(release.tag, "v0.30.0");
   assert.equal(requestConfig.headers.Authorization, "Bearer primary-token");
 });
 
@@ -105,7 +105,7 @@ test("falls back to GH_TOKEN when GITHUB_TOKEN is blank", async (t) => {
   t.after(() => getMock.mock.restore());
 
   const injector = createInjector();
-  await injector.fetchLatestRtkRelease();
+  await injector.fetchReleases(true);
   const [, requestConfig] = getMock.mock.calls[0].arguments;
 
   assert.equal(requestConfig.headers.Authorization, "Bearer fallback-token");
@@ -120,7 +120,7 @@ test("skips latest release lookup when an explicit rtk version is provided", asy
   t.after(() => getMock.mock.restore());
 
   const injector = createInjector({ version: "v0.30.0" });
-  await injector.resolveRtkVersion();
+  await injector.resolveVersion();
 
   assert.equal(getMock.mock.calls.length, 0);
   assert.equal(injector.runtimeInfo.version, "v0.30.0");
@@ -132,15 +132,20 @@ test("shows an actionable 403 error without leaking tokens", async (t) => {
   clearEnv(ENV_KEYS);
 
   const getMock = mock.method(axios, "get", async () => {
-    throw createAxiosError(403, "API rate limit exceeded for 127.0.0.1.");
+    const error = createAxiosError(403, "API rate limit exceeded for 127.0.0.1.");
+    error.response.headers = { "x-ratelimit-reset": "1767225600" };
+    throw error;
   });
   t.after(() => getMock.mock.restore());
 
   const injector = createInjector();
 
   await assert.rejects(
-    () => injector.fetchLatestRtkRelease(),
+    () => injector.fetchReleases(true),
     (error) => {
+      assert.ok(error instanceof GitHubRateLimitError);
+      assert.equal(error.code, "GITHUB_RATE_LIMIT");
+      assert.equal(error.resetAt.toISOString(), "2026-01-01T00:00:00.000Z");
       assert.match(error.message, /GITHUB_TOKEN/);
       assert.match(error.message, /GH_TOKEN/);
       assert.match(error.message, /--runtime-version/);
@@ -165,8 +170,11 @@ test("shows an actionable 401 error without leaking tokens", async (t) => {
   const injector = createInjector();
 
   await assert.rejects(
-    () => injector.fetchLatestRtkRelease(),
+    () => injector.fetchReleases(true),
     (error) => {
+      assert.ok(error instanceof GitHubAuthError);
+      assert.equal(error.code, "GITHUB_AUTH");
+      assert.equal(error.status, 401);
       assert.match(error.message, /authenticate with GitHub/i);
       assert.match(error.message, /GITHUB_TOKEN/);
       assert.match(error.message, /GH_TOKEN/);
@@ -187,7 +195,7 @@ test("uses HTTPS_PROXY for the GitHub latest release request", async (t) => {
   t.after(() => getMock.mock.restore());
 
   const injector = createInjector();
-  await injector.fetchLatestRtkRelease();
+  await injector.fetchReleases(true);
   const [, requestConfig] = getMock.mock.calls[0].arguments;
 
   assert.deepEqual(requestConfig.proxy, {
@@ -213,7 +221,7 @@ test("respects NO_PROXY for the GitHub latest release request", async (t) => {
   t.after(() => getMock.mock.restore());
 
   const injector = createInjector();
-  await injector.fetchLatestRtkRelease();
+  await injector.fetchReleases(true);
   const [, requestConfig] = getMock.mock.calls[0].arguments;
 
   assert.equal(requestConfig.proxy, false);
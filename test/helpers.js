@@ -0,0 +1,57 @@
+import { createHash } from "node:crypto";
+import os from "node:os";
+import path from "node:path";
+import fs from "fs-extra";
+import * as tar from "tar";
+import { defineRuntime, registerRuntime, unregisterRuntime } from "../dist/index.js";
+
+/** Creates a temporary directory that is removed once test `t` finishes */
+export async function createTempDir(t, prefix = "tri-") {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+  t.after(() => fs.remove(dir));
+  return dir;
+}
+
+export function sha256(content) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Writes `files` (relative path to content) as executables under
+ * `<dir>/<name>-source` and packs their top-level entries into
+ * `<dir>/<name>.tar.gz`, or `archivePath` when given.
+ */
+export async function createArchive(dir, files, { name = "archive", archivePath } = {}) {
+  const sourceDir = path.join(dir, `${name}-source`);
+  for (const [file, content] of Object.entries(files)) {
+    await fs.outputFile(path.join(sourceDir, file), content, { mode: 0o755 });
+  }
+
+  const file = archivePath ?? path.join(dir, `${name}.tar.gz`);
+  const entries = [...new Set(Object.keys(files).map((entry) => entry.split("/")[0]))];
+  await fs.ensureDir(path.dirname(file));
+  await tar.create({ gzip: true, file, cwd: sourceDir }, entries);
+
+  const content = await fs.readFile(file);
+  return { archivePath: file, content, sha256: sha256(content) };
+}
+
+/**
+ * Registers a "tool" runtime for the host platform, downloaded from
+ * downloads.example.com unless `definition` says otherwise, and unregisters
+ * it once test `t` finishes.
+ */
+export function registerTool(t, definition = {}) {
+  registerRuntime(
+    "tool",
+    defineRuntime("tool", {
+      defaultVersion: "1.4.0",
+      downloadUrlTemplate: "https://downloads.example.com/tool/{version}/{fileName}",
+      fileNameTemplate: "tool-{version}-{target}.tar.gz",
+      targets: { [`${process.arch}-${process.platform}`]: "host" },
+      executable: "tool",
+      ...definition,
+    })
+  );
+  t.after(() => unregisterRuntime("tool"));
+}
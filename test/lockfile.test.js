@@ -0,0 +1,109 @@
+import test, { mock } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "fs-extra";
+import axios from "axios";
+import { LockfileError, RuntimeInjector } from "../dist/index.js";
+import { createTempDir } from "./helpers.js";
+
+const RTK_URL =
+  "https://github.com/rtk-ai/rtk/releases/download/v0.30.0/rtk-aarch64-apple-darwin.tar.gz";
+
+function createInjector(dir, options = {}) {
+  return new RuntimeInjector({
+    type: "rtk",
+    version: "latest",
+    platform: "darwin",
+    arch: "arm64",
+    targetDir: path.join(dir, "rtk"),
+    lockfile: true,
+    ...options,
+  });
+}
+
+function mockNoNetwork(t) {
+  const getMock = mock.method(axios, "get", async () => {
+    throw new Error("unexpected network access");
+  });
+  t.after(() => getMock.mock.restore());
+  return getMock;
+}
+
+test("records the resolved version next to the target dir", async (t) => {
+  const dir = await createTempDir(t, "tri-lockfile-");
+  const injector = createInjector(dir);
+  injector.updateResolvedVersion("v0.30.0");
+
+  await injector.writeLockEntry(RTK_URL, "a".repeat(64));
+
+  const lockfile = await fs.readJson(path.join(dir, "runtimes.lock.json"));
+  assert.deepEqual(lockfile.runtimes.rtk_darwin_arm64, {
+    type: "rtk",
+    requestedVersion: "latest",
+    version: "v0.30.0",
+    url: RTK_URL,
+    sha256: "a".repeat(64),
+    platform: "darwin",
+    arch: "arm64",
+  });
+});
+
+test("reuses the pinned version instead of resolving latest again", async (t) => {
+  const dir = await createTempDir(t, "tri-lockfile-");
+  const first = createInjector(dir);
+  first.updateResolvedVersion("v0.30.0");
+  await first.writeLockEntry(RTK_URL, "a".repeat(64));
+
+  const getMock = mockNoNetwork(t);
+  const injector = createInjector(dir);
+  await injector.resolveVersionFromLockfile();
+
+  assert.equal(getMock.mock.calls.length, 0);
+  assert.equal(injector.runtimeInfo.version, "v0.30.0");
+  assert.equal(await injector.fetchExpectedSha256(RTK_URL), "a".repeat(64));
+});
+
+test("frozen mode refuses runtimes missing from the lockfile", async (t) => {
+  const dir = await createTempDir(t, "tri-lockfile-");
+  mockNoNetwork(t);
+
+  const injector = createInjector(dir, { frozen: true });
+
+  await assert.rejects(
+    () => injector.resolveVersionFromLockfile(),
+    (error) =>
+      error instanceof LockfileError &&
+      error.code === "LOCKFILE" &&
+      /has no entry for rtk_darwin_arm64/.test(error.message)
+  );
+});
+
+test("frozen mode refuses a different requested version", async (t) => {
+  const dir = await createTempDir(t, "tri-lockfile-");
+  const first = createInjector(dir);
+  first.updateResolvedVersion("v0.30.0");
+  await first.writeLockEntry(RTK_URL, "a".repeat(64));
+
+  const injector = createInjector(dir, { version: "v0.29.0", frozen: true });
+
+  await assert.rejects(
+    () => injector.resolveVersionFromLockfile(),
+    /pins rtk_darwin_arm64 to version "latest"/
+  );
+});
+
+test("frozen mode refuses a download URL that deviates from the lockfile", async (t) => {
+  const dir = await createTempDir(t, "tri-lockfile-");
+  const first = createInjector(dir);
+  first.updateResolvedVersion("v0.30.0");
+  await first.writeLockEntry(RTK_URL, "a".repeat(64));
+
+  const injector = createInjector(dir, { frozen: true });
+  await injector.resolveVersionFromLockfile();
+
+  assert.doesNotThrow(() => injector.assertMatchesLockfile(RTK_URL));
+  assert.throws(
+    () => injector.assertMatchesLockfile(`${RTK_URL}.mirror`),
+    /Frozen lockfile .* expects/
+  );
+});
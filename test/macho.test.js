@@ -0,0 +1,154 @@
+import test, { mock } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "fs-extra";
+import { RuntimeInjector, createConsoleLogger } from "../dist/index.js";
+import { getMachOSlices, mergeUniversalDirs } from "../dist/macho.js";
+import { createArchive, createTempDir, registerTool } from "./helpers.js";
+
+const CPU_TYPE_X86_64 = 0x01000007;
+const CPU_TYPE_ARM64 = 0x0100000c;
+
+const TOOL_DEFINITION = {
+  defaultVersion: "1.4.0",
+  downloadUrlTemplate: "https://downloads.example.com/tool/{tag}/{fileName}",
+  fileNameTemplate: "tool-{version}-{target}.{ext}",
+  tagTemplate: "v{version}",
+  targets: {
+    "x64-darwin": "darwin-amd64",
+    "arm64-darwin": "darwin-arm64",
+  },
+  executable: "bin/tool",
+};
+
+function createThinMachO(cputype, body) {
+  const header = Buffer.alloc(32);
+  header.writeUInt32LE(0xfeedfacf, 0);
+  header.writeInt32LE(cputype, 4);
+  header.writeInt32LE(0, 8);
+  return Buffer.concat([header, Buffer.from(body)]);
+}
+
+function createToolArchive(mirrorDir, target, files) {
+  return createArchive(path.dirname(mirrorDir), files, {
+    name: target,
+    archivePath: path.join(
+      mirrorDir,
+      "downloads.example.com",
+      "tool",
+      "v1.4.0",
+      `tool-1.4.0-${target}.tar.gz`
+    ),
+  });
+}
+
+test("reads thin and fat Mach-O files and ignores other content", () => {
+  const thin = getMachOSlices(createThinMachO(CPU_TYPE_ARM64, "arm64 code"));
+  assert.equal(thin.length, 1);
+  assert.equal(thin[0].cputype, CPU_TYPE_ARM64);
+  assert.equal(thin[0].align, 14);
+
+  assert.equal(getMachOSlices(Buffer.from("#!/bin/sh\necho hi\n")), undefined);
+
+  // A Java class file starts with the fat magic too
+  const javaClass = Buffer.from([0xca, 0xfe, 0xba, 0xbe, 0x00, 0x00, 0x00, 0x41]);
+  assert.equal(getMachOSlices(javaClass), undefined);
+});
+
+test("merges x64 and arm64 archives into a universal install", async (t) => {
+  registerTool(t, TOOL_DEFINITION);
+
+  const dir = await createTempDir(t, "tri-macho-");
+  const mirrorDir = path.join(dir, "mirror");
+  const x64Binary = createThinMachO(CPU_TYPE_X86_64, "x64 code");
+  const arm64Binary = createThinMachO(CPU_TYPE_ARM64, "arm64 code");
+  await createToolArchive(mirrorDir, "darwin-amd64", {
+    "bin/tool": x64Binary,
+    "README.txt": "same everywhere\n",
+    "config.txt": "arch=x64\n",
+  });
+  await createToolArchive(mirrorDir, "darwin-arm64", {
+    "bin/tool": arm64Binary,
+    "README.txt": "same everywhere\n",
+    "config.txt": "arch=arm64\n",
+  });
+
+  const targetDir = path.join(dir, "runtime", "tool");
+  const result = await new RuntimeInjector({
+    type: "tool",
+    platform: "darwin",
+    arch: "universal",
+    targetDir,
+    mirrorDir,
+    offline: true,
+    cacheDir: false,
+  }).inject();
+  assert.equal(result.status, "installed");
+
+  const merged = await fs.readFile(path.join(targetDir, "bin", "tool"));
+  assert.equal(merged.readUInt32BE(0), 0xcafebabe);
+  const slices = getMachOSlices(merged);
+  assert.deepEqual(
+    slices.map((slice) => slice.cputype),
+    [CPU_TYPE_X86_64, CPU_TYPE_ARM64]
+  );
+  assert.ok(slices[0].data.equals(x64Binary));
+  assert.ok(slices[1].data.equals(arm64Binary));
+  assert.equal(slices[1].data.byteOffset % 2 ** 14, 0);
+
+  assert.equal(
+    await fs.readFile(path.join(targetDir, "README.txt"), "utf8"),
+    "same everywhere\n"
+  );
+  assert.equal(await fs.readFile(path.join(targetDir, "config.txt"), "utf8"), "arch=arm64\n");
+  assert.ok(await fs.pathExists(path.join(targetDir, "tool_darwin_universal")));
+});
+
+test("reads only the binaries it merges into memory", async (t) => {
+  const dir = await createTempDir(t, "tri-macho-");
+  const x64Dir = path.join(dir, "x64");
+  const arm64Dir = path.join(dir, "arm64");
+  const data = Buffer.alloc(64 * 1024, 1);
+  for (const [arch, cputype] of [
+    [x64Dir, CPU_TYPE_X86_64],
+    [arm64Dir, CPU_TYPE_ARM64],
+  ]) {
+    await fs.outputFile(path.join(arch, "bin", "tool"), createThinMachO(cputype, "code"));
+    await fs.outputFile(path.join(arch, "lib", "data.bin"), data);
+    await fs.outputFile(path.join(arch, "lib", "config.txt"), `arch=${path.basename(arch)}\n`);
+  }
+  const readFileMock = mock.method(fs, "readFile");
+  t.after(() => readFileMock.mock.restore());
+
+  const targetDir = path.join(dir, "universal");
+  const merged = await mergeUniversalDirs(
+    x64Dir,
+    arm64Dir,
+    targetDir,
+    createConsoleLogger("silent")
+  );
+
+  assert.equal(merged, 1);
+  assert.deepEqual(
+    readFileMock.mock.calls.map((call) => path.relative(dir, call.arguments[0])).sort(),
+    [path.join("arm64", "bin", "tool"), path.join("x64", "bin", "tool")]
+  );
+  assert.ok((await fs.readFile(path.join(targetDir, "lib", "data.bin"))).equals(data));
+  assert.equal(
+    await fs.readFile(path.join(targetDir, "lib", "config.txt"), "utf8"),
+    "arch=arm64\n"
+  );
+});
+
+test("only allows universal installs for darwin", () => {
+  assert.throws(
+    () =>
+      new RuntimeInjector({
+        type: "node",
+        platform: "linux",
+        arch: "universal",
+        targetDir: "runtime/node",
+      }),
+    /only supported for darwin/
+  );
+});
@@ -0,0 +1,124 @@
+import test, { mock } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "fs-extra";
+import { ConfigError, RuntimeInjector, injectAll, loadManifest } from "../dist/index.js";
+import { createTempDir } from "./helpers.js";
+
+test("resolves manifest target directories relative to the manifest", async (t) => {
+  const dir = await createTempDir(t, "tri-manifest-");
+  const manifestPath = path.join(dir, "runtimes.json");
+  await fs.writeJson(manifestPath, {
+    concurrency: 3,
+    runtimes: [
+      { type: "node", version: "v24.12.0", targetDir: "resources/node" },
+      { type: "uv" },
+    ],
+  });
+
+  const manifest = await loadManifest(manifestPath);
+
+  assert.equal(manifest.concurrency, 3);
+  assert.equal(manifest.runtimes[0].targetDir, path.join(dir, "resources/node"));
+  assert.equal(manifest.runtimes[1].targetDir, path.join(dir, "runtime/uv"));
+});
+
+test("resolves manifest cache and mirror directories relative to the manifest", async (t) => {
+  const dir = await createTempDir(t, "tri-manifest-");
+  const manifestPath = path.join(dir, "runtimes.json");
+  await fs.writeJson(manifestPath, {
+    defaults: { cacheDir: ".cache/runtimes", mirrorDir: "mirror" },
+    runtimes: [{ type: "node", cacheDir: "node-cache" }, { type: "uv", cacheDir: false }],
+  });
+
+  const manifest = await loadManifest(manifestPath);
+
+  assert.equal(manifest.defaults.cacheDir, path.join(dir, ".cache/runtimes"));
+  assert.equal(manifest.defaults.mirrorDir, path.join(dir, "mirror"));
+  assert.equal(manifest.runtimes[0].cacheDir, path.join(dir, "node-cache"));
+  assert.equal(manifest.runtimes[1].cacheDir, false);
+});
+
+test("rejects manifests without a runtimes array", async (t) => {
+  const dir = await createTempDir(t, "tri-manifest-");
+  const manifestPath = path.join(dir, "runtimes.json");
+  await fs.writeJson(manifestPath, { type: "node" });
+
+  await assert.rejects(() => loadManifest(manifestPath), /"runtimes" array/);
+});
+
+test("installs runtimes with bounded parallelism and a combined summary", async (t) => {
+  let active = 0;
+  let maxActive = 0;
+  const injectMock = mock.method(RuntimeInjector.prototype, "inject", async function () {
+    active++;
+    maxActive = Math.max(maxActive, active);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    active--;
+
+    if (this.runtimeInfo.type === "python") {
+      throw new Error("boom");
+    }
+    return {
+      ...this.runtimeInfo,
+      status: this.runtimeInfo.type === "uv" ? "skipped" : "installed",
+    };
+  });
+  t.after(() => injectMock.mock.restore());
+
+  const summary = await injectAll(
+    {
+      defaults: { platform: "linux", arch: "x64" },
+      runtimes: [
+        { type: "node", targetDir: "/tmp/a" },
+        { type: "uv", targetDir: "/tmp/b" },
+        { type: "python", targetDir: "/tmp/c" },
+        { type: "ripgrep", targetDir: "/tmp/d", arch: "arm64" },
+      ],
+    },
+    { concurrency: 2 }
+  );
+
+  assert.equal(maxActive, 2);
+  assert.equal(summary.installed, 2);
+  assert.equal(summary.skipped, 1);
+  assert.equal(summary.failed, 1);
+  assert.deepEqual(
+    summary.results.map((result) => [result.type, result.status, result.arch]),
+    [
+      ["node", "installed", "x64"],
+      ["uv", "skipped", "x64"],
+      ["python", "failed", "x64"],
+      ["ripgrep", "installed", "arm64"],
+    ]
+  );
+  assert.equal(summary.results[2].error.message, "boom");
+});
+
+test("rejects two entries that would share a lockfile entry", async (t) => {
+  const injectMock = mock.method(RuntimeInjector.prototype, "inject", async function () {
+    return { ...this.runtimeInfo, status: "installed" };
+  });
+  t.after(() => injectMock.mock.restore());
+
+  const manifest = {
+    lockfile: "/tmp/runtimes.lock.json",
+    defaults: { platform: "linux", arch: "x64" },
+    runtimes: [
+      { type: "node", targetDir: "/tmp/app-a/node" },
+      { type: "node", targetDir: "/tmp/app-b/node" },
+    ],
+  };
+
+  await assert.rejects(
+    () => injectAll(manifest),
+    (error) =>
+      error instanceof ConfigError &&
+      /\/tmp\/app-a\/node and \/tmp\/app-b\/node both install node_linux_x64/.test(error.message)
+  );
+  assert.equal(injectMock.mock.callCount(), 0);
+
+  manifest.runtimes[1].lockfile = "/tmp/app-b.lock.json";
+  const summary = await injectAll(manifest);
+  assert.equal(summary.installed, 2);
+});
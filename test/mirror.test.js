@@ -0,0 +1,100 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { RuntimeInjector } from "../dist/index.js";
+
+const ENV_KEYS = [
+  "NODEJS_ORG_MIRROR",
+  "NVM_NODEJS_ORG_MIRROR",
+  "UV_PYTHON_INSTALL_MIRROR",
+  "TINY_RUNTIME_INJECTOR_BUN_MIRROR",
+];
+
+function isolateEnv(t) {
+  const snapshot = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+  t.after(() => {
+    for (const [key, value] of Object.entries(snapshot)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+}
+
+function getDownloadUrl(options) {
+  return new RuntimeInjector({
+    platform: "linux",
+    arch: "x64",
+    targetDir: path.join(os.tmpdir(), "tiny-runtime-injector-mirror-test"),
+    ...options,
+  }).getDownloadUrl();
+}
+
+test("uses the upstream URL when no mirror is configured", (t) => {
+  isolateEnv(t);
+
+  assert.equal(
+    getDownloadUrl({ type: "node", version: "v24.12.0" }),
+    "https://nodejs.org/dist/v24.12.0/node-v24.12.0-linux-x64.tar.gz"
+  );
+});
+
+test("rebases the upstream layout onto a mirror base URL", (t) => {
+  isolateEnv(t);
+  process.env.NODEJS_ORG_MIRROR = "https://npmmirror.com/mirrors/node";
+
+  assert.equal(
+    getDownloadUrl({ type: "node", version: "v24.12.0" }),
+    "https://npmmirror.com/mirrors/node/v24.12.0/node-v24.12.0-linux-x64.tar.gz"
+  );
+});
+
+test("expands placeholders in mirror templates", (t) => {
+  isolateEnv(t);
+
+  assert.equal(
+    getDownloadUrl({
+      type: "bun",
+      version: "v1.3.5",
+      mirror: "https://artifactory.example.com/bun/{version}/{platform}-{arch}/{fileName}",
+    }),
+    "https://artifactory.example.com/bun/v1.3.5/linux-x64/bun-linux-x64.zip"
+  );
+  assert.equal(
+    getDownloadUrl({
+      type: "python",
+      version: "3.12.12+20251217",
+      mirrors: { python: "https://mirror.example.com/pbs/{tag}/{fileName}" },
+    }),
+    "https://mirror.example.com/pbs/20251217/cpython-3.12.12+20251217-x86_64-unknown-linux-gnu-install_only.tar.gz"
+  );
+});
+
+test("reads per-runtime mirror env vars with options taking precedence", (t) => {
+  isolateEnv(t);
+  process.env.TINY_RUNTIME_INJECTOR_BUN_MIRROR = "https://env.example.com/bun/";
+  process.env.UV_PYTHON_INSTALL_MIRROR = "https://env.example.com/pbs";
+
+  assert.equal(
+    getDownloadUrl({ type: "bun", version: "v1.3.5" }),
+    "https://env.example.com/bun/bun-v1.3.5/bun-linux-x64.zip"
+  );
+  assert.equal(
+    getDownloadUrl({
+      type: "bun",
+      version: "v1.3.5",
+      mirrors: { bun: "https://option.example.com/bun" },
+    }),
+    "https://option.example.com/bun/bun-v1.3.5/bun-linux-x64.zip"
+  );
+  assert.equal(
+    getDownloadUrl({ type: "python", version: "3.12.12+20251217" }),
+    "https://env.example.com/pbs/20251217/cpython-3.12.12+20251217-x86_64-unknown-linux-gnu-install_only.tar.gz"
+  );
+});
@@ -0,0 +1,119 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import path from "node:path";
+import fs from "fs-extra";
+import { RuntimeInjector } from "../dist/index.js";
+import { createArchive, createTempDir } from "./helpers.js";
+
+const NODE_VERSION = "v24.12.0";
+const hostNpmDir = path.join(
+  path.dirname(process.execPath),
+  "..",
+  "lib",
+  "node_modules",
+  "npm"
+);
+const canRunNpm = process.platform !== "win32" && fs.pathExistsSync(hostNpmDir);
+
+// A stand-in for a Node.js tarball that defers to the host node and npm
+function createNodeArchive(dir) {
+  const nodeDir = `node-${NODE_VERSION}-${process.platform}-${process.arch}`;
+  const npmCli = path.join(hostNpmDir, "bin", "npm-cli.js");
+  return createArchive(
+    dir,
+    {
+      [`${nodeDir}/bin/node`]: `#!/bin/sh\nif [ "$1" = "-v" ]; then echo "${NODE_VERSION}"; exit 0; fi\nexec "${process.execPath}" "$@"\n`,
+      [`${nodeDir}/lib/node_modules/npm/bin/npm-cli.js`]: `require(${JSON.stringify(npmCli)});\n`,
+    },
+    { name: "node" }
+  );
+}
+
+function packPackage(dir, tarballDir, version) {
+  return createArchive(
+    dir,
+    {
+      "package/package.json": JSON.stringify({
+        name: "hello-cli",
+        version,
+        bin: { hello: "cli.js" },
+      }),
+      "package/cli.js": `#!/usr/bin/env node\nconsole.log("hello ${version}");\n`,
+    },
+    { name: `hello-cli-${version}`, archivePath: path.join(tarballDir, `hello-cli-${version}.tgz`) }
+  );
+}
+
+function createInjector(dir, archive, npmPackages) {
+  return new RuntimeInjector({
+    type: "node",
+    version: NODE_VERSION,
+    targetDir: path.join(dir, "runtime", "node"),
+    archivePath: archive.archivePath,
+    expectedSha256: archive.sha256,
+    cacheDir: false,
+    offline: true,
+    npmPackages,
+  });
+}
+
+test("rejects npmPackages for other runtime types", () => {
+  assert.throws(
+    () =>
+      new RuntimeInjector({
+        type: "bun",
+        targetDir: "runtime/bun",
+        npmPackages: { packages: ["pnpm"] },
+      }),
+    /only supported for the node runtime/
+  );
+});
+
+test(
+  "requires a tarball directory for npm packages when offline",
+  { skip: process.platform === "win32" },
+  async (t) => {
+    const dir = await createTempDir(t, "tri-npm-");
+    const archive = await createNodeArchive(dir);
+
+    await assert.rejects(
+      createInjector(dir, archive, { packages: ["pnpm"] }).inject(),
+      /Offline mode: refusing to install npm packages/
+    );
+  }
+);
+
+test(
+  "installs global packages from local tarballs with the runtime's npm",
+  { skip: !canRunNpm && "needs the host npm" },
+  async (t) => {
+    const dir = await createTempDir(t, "tri-npm-");
+    const archive = await createNodeArchive(dir);
+    const tarballDir = path.join(dir, "tarballs");
+    await packPackage(dir, tarballDir, "1.0.0");
+
+    const npmPackages = { packages: ["hello-cli@^1.0.0"], tarballDir };
+    const result = await createInjector(dir, archive, npmPackages).inject();
+    assert.equal(result.status, "installed");
+
+    const targetDir = path.join(dir, "runtime", "node");
+    const helloBin = path.join(targetDir, "bin", "hello");
+    assert.equal(execFileSync(helloBin, { encoding: "utf8" }).trim(), "hello 1.0.0");
+
+    const marker = await fs.readJson(
+      path.join(targetDir, `node_${process.platform}_${process.arch}`)
+    );
+    assert.equal(marker.version, NODE_VERSION);
+    assert.deepEqual(marker.npmPackages.installed, { "hello-cli": "1.0.0" });
+    assert.ok(marker.npmPackages.tarballs["hello-cli-1.0.0.tgz"]);
+
+    const second = await createInjector(dir, archive, npmPackages).inject();
+    assert.equal(second.status, "skipped");
+
+    await packPackage(dir, tarballDir, "1.1.0");
+    const third = await createInjector(dir, archive, npmPackages).inject();
+    assert.equal(third.status, "installed");
+    assert.equal(execFileSync(helloBin, { encoding: "utf8" }).trim(), "hello 1.1.0");
+  }
+);
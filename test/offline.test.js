@@ -0,0 +1,174 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "fs-extra";
+import { ArchiveNotFoundError, OfflineError, RuntimeInjector } from "../dist/index.js";
+import { createArchive, createTempDir } from "./helpers.js";
+
+const RTK_ASSET = "rtk-x86_64-unknown-linux-musl.tar.gz";
+
+async function createRtkArchive(dir, archivePath) {
+  const archive = await createArchive(
+    dir,
+    { rtk: '#!/bin/sh\necho "rtk 0.30.0"\n' },
+    { name: "rtk", archivePath }
+  );
+  return archive.sha256;
+}
+
+function createInjector(dir, options = {}) {
+  return new RuntimeInjector({
+    type: "rtk",
+    version: "v0.30.0",
+    platform: "linux",
+    arch: "x64",
+    targetDir: path.join(dir, "runtime", "rtk"),
+    cacheDir: false,
+    cleanup: false,
+    offline: true,
+    ...options,
+  });
+}
+
+test("installs from a local archive without touching the network", async (t) => {
+  const dir = await createTempDir(t, "tri-offline-");
+  const archivePath = path.join(dir, RTK_ASSET);
+  const sha256 = await createRtkArchive(dir, archivePath);
+
+  const injector = createInjector(dir, { archivePath, expectedSha256: sha256 });
+  const result = await injector.inject();
+
+  assert.equal(result.status, "installed");
+  assert.ok(await fs.pathExists(path.join(dir, "runtime", "rtk", "rtk")));
+});
+
+test("reports a missing local archive with its own error code", async (t) => {
+  const dir = await createTempDir(t, "tri-offline-");
+  const archivePath = path.join(dir, RTK_ASSET);
+  const injector = createInjector(dir, { archivePath, expectedSha256: "0".repeat(64) });
+
+  await assert.rejects(
+    () => injector.inject(),
+    (error) =>
+      error instanceof ArchiveNotFoundError &&
+      error.code === "ARCHIVE_NOT_FOUND" &&
+      error.path === archivePath
+  );
+});
+
+test("rejects a local archive that does not match the pinned hash", async (t) => {
+  const dir = await createTempDir(t, "tri-offline-");
+  const archivePath = path.join(dir, RTK_ASSET);
+  await createRtkArchive(dir, archivePath);
+
+  const injector = createInjector(dir, {
+    archivePath,
+    expectedSha256: "0".repeat(64),
+  });
+
+  await assert.rejects(() => injector.inject(), /Checksum mismatch/);
+});
+
+test("refuses to install a local archive it cannot verify offline", async (t) => {
+  const dir = await createTempDir(t, "tri-offline-");
+  const archivePath = path.join(dir, RTK_ASSET);
+  await createRtkArchive(dir, archivePath);
+
+  await assert.rejects(
+    () => createInjector(dir, { archivePath }).inject(),
+    (error) =>
+      error instanceof OfflineError &&
+      /checksum for rtk-x86_64-unknown-linux-musl\.tar\.gz is not available/.test(error.message)
+  );
+  assert.equal(await fs.pathExists(path.join(dir, "runtime", "rtk")), false);
+});
+
+test("installs from a mirror directory laid out like the upstream URLs", async (t) => {
+  const dir = await createTempDir(t, "tri-offline-");
+  const mirrorDir = path.join(dir, "mirror");
+  const releaseDir = path.join(
+    mirrorDir,
+    "github.com/rtk-ai/rtk/releases/download/v0.30.0"
+  );
+  const sha256 = await createRtkArchive(dir, path.join(releaseDir, RTK_ASSET));
+  await fs.writeFile(
+    path.join(releaseDir, `${RTK_ASSET}.sha256`),
+    `${sha256}  ${RTK_ASSET}\n`
+  );
+
+  const injector = createInjector(dir, { mirrorDir });
+  const result = await injector.inject();
+
+  assert.equal(result.status, "installed");
+  assert.ok(await fs.pathExists(path.join(dir, "runtime", "rtk", "rtk")));
+});
+
+test("installs offline from a warm download cache", async (t) => {
+  const dir = await createTempDir(t, "tri-offline-");
+  const mirrorDir = path.join(dir, "mirror");
+  const releaseDir = path.join(
+    mirrorDir,
+    "github.com/rtk-ai/rtk/releases/download/v0.30.0"
+  );
+  const sha256 = await createRtkArchive(dir, path.join(releaseDir, RTK_ASSET));
+  await fs.writeFile(
+    path.join(releaseDir, `${RTK_ASSET}.sha256`),
+    `${sha256}  ${RTK_ASSET}\n`
+  );
+  const cacheDir = path.join(dir, "cache");
+  await createInjector(dir, { mirrorDir, cacheDir }).inject();
+  await fs.remove(mirrorDir);
+
+  const result = await createInjector(dir, {
+    targetDir: path.join(dir, "second", "rtk"),
+    cacheDir,
+  }).inject();
+
+  assert.equal(result.status, "installed");
+  assert.ok(await fs.pathExists(path.join(dir, "second", "rtk", "rtk")));
+});
+
+test("pins an existing install in a new lockfile from its install record", async (t) => {
+  const dir = await createTempDir(t, "tri-offline-");
+  const mirrorDir = path.join(dir, "mirror");
+  const releaseDir = path.join(
+    mirrorDir,
+    "github.com/rtk-ai/rtk/releases/download/v0.30.0"
+  );
+  const sha256 = await createRtkArchive(dir, path.join(releaseDir, RTK_ASSET));
+  await fs.writeFile(
+    path.join(releaseDir, `${RTK_ASSET}.sha256`),
+    `${sha256}  ${RTK_ASSET}\n`
+  );
+  await createInjector(dir, { mirrorDir }).inject();
+  await fs.remove(mirrorDir);
+
+  const result = await createInjector(dir, { mirrorDir, lockfile: true }).inject();
+
+  assert.equal(result.status, "skipped");
+  const lockfile = await fs.readJson(path.join(dir, "runtime", "runtimes.lock.json"));
+  assert.equal(lockfile.runtimes.rtk_linux_x64.sha256, sha256);
+});
+
+test("fails fast when offline and the archive is not mirrored", async (t) => {
+  const dir = await createTempDir(t, "tri-offline-");
+  const injector = createInjector(dir, {
+    mirrorDir: path.join(dir, "mirror"),
+    expectedSha256: "0".repeat(64),
+  });
+
+  await assert.rejects(
+    () => injector.inject(),
+    (error) =>
+      error instanceof OfflineError &&
+      error.code === "OFFLINE" &&
+      /Offline mode: refusing to download https:\/\/github\.com\/rtk-ai/.test(error.message)
+  );
+});
+
+test("refuses to resolve the latest release when offline", async (t) => {
+  const dir = await createTempDir(t, "tri-offline-");
+  const injector = createInjector(dir, { version: "latest" });
+
+  await assert.rejects(() => injector.inject(), /Offline mode: refusing to resolve the latest rtk release/);
+});
@@ -0,0 +1,205 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import path from "node:path";
+import fs from "fs-extra";
+import { RuntimeInjector } from "../dist/index.js";
+import { relocatePythonPaths } from "../dist/python.js";
+import { createArchive, createTempDir } from "./helpers.js";
+
+const PYTHON_VERSION = "3.12.12+20251217";
+
+function findSystemPython() {
+  try {
+    return execFileSync("python3", ["-c", "import sys, venv; print(sys.executable)"], {
+      encoding: "utf8",
+    }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+const systemPython = process.platform === "win32" ? undefined : findSystemPython();
+
+// A stand-in for a python-build-standalone tarball that defers to the host Python
+function createPythonArchive(dir) {
+  return createArchive(
+    dir,
+    {
+      "python/bin/python3": `#!/bin/sh\nif [ "$1" = "--version" ]; then echo "Python 3.12.12"; exit 0; fi\nexec "${systemPython}" "$@"\n`,
+    },
+    { name: "python" }
+  );
+}
+
+function createInjector(dir, archive, pythonPackages) {
+  return new RuntimeInjector({
+    type: "python",
+    version: PYTHON_VERSION,
+    targetDir: path.join(dir, "runtime", "python"),
+    archivePath: archive.archivePath,
+    expectedSha256: archive.sha256,
+    cacheDir: false,
+    cleanup: false,
+    offline: true,
+    pythonPackages,
+  });
+}
+
+test("rejects pythonPackages for other runtime types", () => {
+  assert.throws(
+    () =>
+      new RuntimeInjector({
+        type: "node",
+        targetDir: "runtime/node",
+        pythonPackages: { packages: ["requests"] },
+      }),
+    /only supported for the python runtime/
+  );
+});
+
+test("refuses to provision packages for a foreign platform", async (t) => {
+  const dir = await createTempDir(t, "tri-python-");
+  const injector = new RuntimeInjector({
+    type: "python",
+    version: PYTHON_VERSION,
+    platform: process.platform === "win32" ? "linux" : "win32",
+    arch: "x64",
+    targetDir: path.join(dir, "runtime", "python"),
+    offline: true,
+    pythonPackages: { packages: ["requests"] },
+  });
+
+  await assert.rejects(injector.inject(), /not possible for/);
+});
+
+test(
+  "creates a venv, records it in the marker and reinstalls when requirements change",
+  { skip: !systemPython && "needs a host python3 with venv" },
+  async (t) => {
+    const dir = await createTempDir(t, "tri-python-");
+    const archive = await createPythonArchive(dir);
+    const wheelsDir = path.join(dir, "wheels");
+    const requirements = path.join(dir, "requirements.txt");
+    await fs.ensureDir(wheelsDir);
+    await fs.writeFile(requirements, "# nothing yet\n");
+
+    const pythonPackages = { requirements, findLinks: wheelsDir };
+    const result = await createInjector(dir, archive, pythonPackages).inject();
+    assert.equal(result.status, "installed");
+
+    const targetDir = path.join(dir, "runtime", "python");
+    const marker = await fs.readJson(
+      path.join(targetDir, `python_${process.platform}_${process.arch}`)
+    );
+    assert.equal(marker.version, PYTHON_VERSION);
+    assert.equal(marker.pythonPackages.installer, "pip");
+    assert.equal(marker.pythonPackages.venv, "venv");
+    assert.ok(Array.isArray(marker.pythonPackages.installed));
+
+    const venvConfig = await fs.readFile(path.join(targetDir, "venv", "pyvenv.cfg"), "utf8");
+    assert.doesNotMatch(venvConfig, /\.staging-/);
+    for (const file of await fs.readdir(path.join(targetDir, "venv", "bin"))) {
+      const filePath = path.join(targetDir, "venv", "bin", file);
+      if ((await fs.lstat(filePath)).isFile()) {
+        assert.doesNotMatch(await fs.readFile(filePath, "utf8"), /\.staging-/);
+      }
+    }
+
+    const second = await createInjector(dir, archive, pythonPackages).inject();
+    assert.equal(second.status, "skipped");
+
+    await fs.writeFile(requirements, "# still nothing\n");
+    const third = await createInjector(dir, archive, pythonPackages).inject();
+    assert.equal(third.status, "installed");
+  }
+);
+
+test(
+  "keeps a venv working after the runtime is moved",
+  { skip: !systemPython && "needs a host python3 with venv" },
+  async (t) => {
+    const dir = await createTempDir(t, "tri-python-");
+    const archive = await createPythonArchive(dir);
+    const wheelsDir = path.join(dir, "wheels");
+    const requirements = path.join(dir, "requirements.txt");
+    await fs.ensureDir(wheelsDir);
+    await fs.writeFile(requirements, "# nothing yet\n");
+    await createInjector(dir, archive, { requirements, findLinks: wheelsDir }).inject();
+
+    const movedDir = path.join(dir, "moved", "python");
+    await fs.move(path.join(dir, "runtime", "python"), movedDir);
+    const venvConfig = await fs.readFile(path.join(movedDir, "venv", "pyvenv.cfg"), "utf8");
+    assert.doesNotMatch(venvConfig, /^home\s*=/m);
+
+    const output = execFileSync(path.join(movedDir, "venv", "bin", "pip"), ["--version"], {
+      cwd: dir,
+      encoding: "utf8",
+    });
+    assert.match(output, new RegExp(`from ${movedDir.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+  }
+);
+
+test("points the Windows console-script launchers at the final directory", async (t) => {
+  const dir = await createTempDir(t, "tri-python-");
+  const stagingDir = "C:\\app\\runtime\\python.staging-abc123";
+  const targetDir = "C:\\app\\runtime\\python";
+  const stub = Buffer.from("MZ\0\0launcher stub\0");
+  const zip = Buffer.from("PK\x03\x04__main__.py\0PK\x05\x06\0\0");
+  const scriptsDir = path.join(dir, "Scripts");
+
+  // pip: stub, shebang line, zip
+  const shebang = (root) => Buffer.from(`#!"${root}\\venv\\Scripts\\python.exe"\r\n`);
+  await fs.outputFile(
+    path.join(scriptsDir, "pip.exe"),
+    Buffer.concat([stub, shebang(stagingDir), zip])
+  );
+  // uv: stub, zip, python path, its u32 length, magic
+  const trailer = (root) => {
+    const python = Buffer.from(`${root}\\venv\\Scripts\\python.exe`);
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(python.length);
+    return Buffer.concat([python, length, Buffer.from("UVSC")]);
+  };
+  await fs.outputFile(
+    path.join(scriptsDir, "tool.exe"),
+    Buffer.concat([stub, zip, trailer(stagingDir)])
+  );
+
+  await relocatePythonPaths([scriptsDir], stagingDir, targetDir);
+
+  assert.deepEqual(
+    await fs.readFile(path.join(scriptsDir, "pip.exe")),
+    Buffer.concat([stub, shebang(targetDir), zip])
+  );
+  assert.deepEqual(
+    await fs.readFile(path.join(scriptsDir, "tool.exe")),
+    Buffer.concat([stub, zip, trailer(targetDir)])
+  );
+});
+
+test(
+  "accepts the plain-version marker written by older releases",
+  { skip: process.platform === "win32" },
+  async (t) => {
+    const dir = await createTempDir(t, "tri-python-");
+    const targetDir = path.join(dir, "runtime", "python");
+    await fs.outputFile(
+      path.join(targetDir, "bin", "python3"),
+      '#!/bin/sh\necho "Python 3.12.12"\n',
+      { mode: 0o755 }
+    );
+    await fs.writeFile(
+      path.join(targetDir, `python_${process.platform}_${process.arch}`),
+      PYTHON_VERSION
+    );
+
+    const result = await new RuntimeInjector({
+      type: "python",
+      version: PYTHON_VERSION,
+      targetDir,
+      offline: true,
+    }).inject();
+    assert.equal(result.status, "skipped");
+  }
+);
@@ -0,0 +1,128 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import fs from "fs-extra";
+import {
+  ConfigError,
+  RuntimeInjector,
+  UnsupportedPlatformError,
+  defineRuntime,
+  getRuntimeTypes,
+  injectAll,
+  registerRuntime,
+  unregisterRuntime,
+} from "../dist/index.js";
+import { createArchive, createTempDir } from "./helpers.js";
+
+const TOOL_DEFINITION = {
+  defaultVersion: "1.4.0",
+  downloadUrlTemplate: "https://downloads.example.com/tool/{tag}/{fileName}",
+  fileNameTemplate: "tool-{version}-{target}.{ext}",
+  tagTemplate: "v{version}",
+  targets: {
+    "x64-linux": "linux-amd64",
+    "x64-win32": { target: "windows-amd64", archiveType: "zip" },
+  },
+  stripComponents: 1,
+  executable: "bin/tool{exe}",
+};
+
+async function createToolArchive(dir) {
+  const archive = await createArchive(
+    dir,
+    { "tool-1.4.0/bin/tool": '#!/bin/sh\necho "tool version 1.4.0"\n' },
+    { name: "tool-1.4.0-linux-amd64" }
+  );
+  return archive.archivePath;
+}
+
+test("compiles declarative definitions into download URLs and executables", (t) => {
+  registerRuntime("tool", defineRuntime("tool", TOOL_DEFINITION));
+  t.after(() => unregisterRuntime("tool"));
+
+  assert.ok(getRuntimeTypes().includes("tool"));
+
+  const injector = new RuntimeInjector({
+    type: "tool",
+    platform: "win32",
+    arch: "x64",
+    targetDir: path.join(os.tmpdir(), "tool"),
+  });
+  assert.equal(
+    injector.getDownloadUrl(),
+    "https://downloads.example.com/tool/v1.4.0/tool-1.4.0-windows-amd64.zip"
+  );
+  assert.equal(
+    injector.runtimeInfo.executablePath,
+    path.join(os.tmpdir(), "tool", "bin", "tool.exe")
+  );
+
+  const unsupported = new RuntimeInjector({
+    type: "tool",
+    platform: "darwin",
+    arch: "arm64",
+    targetDir: path.join(os.tmpdir(), "tool"),
+  });
+  assert.throws(
+    () => unsupported.getDownloadUrl(),
+    /Unsupported platform for tool: darwin-arm64\. Supported targets: x64-linux, x64-win32/
+  );
+  assert.throws(
+    () => unsupported.getDownloadUrl(),
+    (error) =>
+      error instanceof UnsupportedPlatformError &&
+      error.code === "UNSUPPORTED_PLATFORM" &&
+      error.platform === "darwin" &&
+      error.arch === "arm64"
+  );
+});
+
+test("rejects unknown types and replacing built-in runtimes", () => {
+  assert.throws(
+    () => new RuntimeInjector({ type: "go", targetDir: "runtime/go" }),
+    (error) =>
+      error instanceof ConfigError &&
+      error.code === "INVALID_CONFIG" &&
+      /Unknown runtime type "go"/.test(error.message)
+  );
+  assert.throws(
+    () => registerRuntime("node", defineRuntime("node", TOOL_DEFINITION)),
+    (error) => error instanceof ConfigError && /is built in/.test(error.message)
+  );
+  assert.throws(
+    () => defineRuntime("broken", { ...TOOL_DEFINITION, executable: undefined }),
+    (error) => error instanceof ConfigError && /must set "executable"/.test(error.message)
+  );
+});
+
+test(
+  "installs manifest runtime definitions and probes their version",
+  { skip: process.platform === "win32" },
+  async (t) => {
+    const dir = await createTempDir(t, "tri-registry-");
+    const archivePath = await createToolArchive(dir);
+    t.after(() => unregisterRuntime("tool"));
+
+    const entry = {
+      type: "tool",
+      platform: "linux",
+      arch: "x64",
+      targetDir: path.join(dir, "runtime", "tool"),
+      archivePath,
+      offline: true,
+      cacheDir: false,
+    };
+    const manifest = {
+      runtimeDefinitions: { tool: TOOL_DEFINITION },
+      runtimes: [entry],
+    };
+
+    const first = await injectAll(manifest);
+    assert.equal(first.results[0].status, "installed", first.results[0].error?.message);
+    assert.ok(await fs.pathExists(path.join(dir, "runtime", "tool", "bin", "tool")));
+
+    const second = await injectAll(manifest);
+    assert.equal(second.results[0].status, "skipped");
+  }
+);
@@ -0,0 +1,103 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import {
+  RuntimeInjector,
+  createConsoleLogger,
+  getRuntimeEnv,
+  resolveRuntime,
+} from "../dist/index.js";
+import { createArchive, createTempDir, registerTool } from "./helpers.js";
+
+async function createInstallOptions(dir) {
+  const archive = await createArchive(
+    dir,
+    { "bin/tool": "#!/bin/sh\necho 1.4.0\n" },
+    { name: "tool" }
+  );
+  return {
+    archivePath: archive.archivePath,
+    expectedSha256: archive.sha256,
+    cacheDir: false,
+    offline: true,
+    logger: createConsoleLogger("silent"),
+  };
+}
+
+test("resolves a runtime injected at build time", async (t) => {
+  registerTool(t, { executable: "bin/tool" });
+  const dir = await createTempDir(t, "tri-resolve-");
+  const baseDir = path.join(dir, "resources", "runtime");
+  await new RuntimeInjector({
+    type: "tool",
+    targetDir: path.join(baseDir, "tool"),
+    ...(await createInstallOptions(dir)),
+  }).inject();
+
+  const runtime = await resolveRuntime({ type: "tool", baseDir });
+  assert.equal(runtime.version, "1.4.0");
+  assert.equal(runtime.installed, false);
+  assert.equal(runtime.executablePath, path.join(baseDir, "tool", "bin", "tool"));
+  const pathKey = Object.keys(runtime.env).find((key) => key.toUpperCase() === "PATH");
+  assert.equal(runtime.env[pathKey].split(path.delimiter)[0], path.join(baseDir, "tool", "bin"));
+
+  await assert.rejects(
+    resolveRuntime({ type: "tool", baseDir: path.join(dir, "elsewhere") }),
+    /No tool runtime for .* found in/
+  );
+});
+
+test("installs a missing runtime into installDir once", async (t) => {
+  registerTool(t, { executable: "bin/tool" });
+  const dir = await createTempDir(t, "tri-resolve-");
+  const events = [];
+  const options = {
+    type: "tool",
+    baseDir: path.join(dir, "resources", "runtime"),
+    installDir: path.join(dir, "userData", "runtime"),
+    installOptions: {
+      ...(await createInstallOptions(dir)),
+      onEvent: (event) => events.push(event.phase),
+    },
+  };
+
+  const [first, second] = await Promise.all([resolveRuntime(options), resolveRuntime(options)]);
+  assert.equal(first.installed, true);
+  assert.equal(second.executablePath, first.executablePath);
+  assert.equal(first.targetDir, path.join(dir, "userData", "runtime", "tool"));
+  assert.equal(events.filter((phase) => phase === "resolve").length, 1);
+
+  const again = await resolveRuntime(options);
+  assert.equal(again.installed, false);
+  assert.equal(again.marker.type, "tool");
+});
+
+test("describes the environment each built-in runtime needs", () => {
+  const info = (type, platform, targetDir) => ({
+    type,
+    version: "1.0.0",
+    platform,
+    arch: "x64",
+    targetDir,
+    executablePath: "",
+  });
+
+  assert.deepEqual(getRuntimeEnv(info("node", "win32", "C:\\rt\\node")), {
+    pathDirs: ["C:\\rt\\node"],
+    variables: { NODE_PATH: path.join("C:\\rt\\node", "node_modules") },
+  });
+  assert.deepEqual(getRuntimeEnv(info("python", "linux", "/rt/python")), {
+    pathDirs: [path.join("/rt/python", "bin")],
+    variables: { PYTHONHOME: "/rt/python" },
+  });
+  assert.deepEqual(
+    getRuntimeEnv(info("python", "linux", "/rt/python"), {
+      version: "3.12.12+20251217",
+      pythonPackages: { installer: "pip", venv: "venv", packages: [] },
+    }),
+    {
+      pathDirs: [path.join("/rt/python", "venv", "bin"), path.join("/rt/python", "bin")],
+      variables: { VIRTUAL_ENV: path.join("/rt/python", "venv") },
+    }
+  );
+});
@@ -0,0 +1,110 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "fs-extra";
+import {
+  CommandError,
+  ConfigError,
+  RuntimeInjector,
+  createConsoleLogger,
+  runWith,
+} from "../dist/index.js";
+import { runCommand } from "../dist/process.js";
+import { createArchive, createTempDir, registerTool } from "./helpers.js";
+
+async function injectTool(t, dir) {
+  registerTool(t, { executable: "bin/tool" });
+
+  const script = (body) => `#!/bin/sh\n${body}\n`;
+  const archive = await createArchive(
+    dir,
+    {
+      "bin/tool": script('echo "tool $*"; exit 3'),
+      "bin/helper": script('echo "helper $*"; echo "path $PATH" >&2'),
+    },
+    { name: "tool" }
+  );
+
+  const injector = new RuntimeInjector({
+    type: "tool",
+    targetDir: path.join(dir, "runtime", "tool"),
+    archivePath: archive.archivePath,
+    expectedSha256: archive.sha256,
+    cacheDir: false,
+    offline: true,
+    logger: createConsoleLogger("silent"),
+  });
+  return { injector, result: await injector.inject() };
+}
+
+test("runs a runtime and its sibling commands with the runtime on PATH", async (t) => {
+  const dir = await createTempDir(t, "tri-run-");
+  const { injector, result } = await injectTool(t, dir);
+
+  const chunks = [];
+  const run = await injector.exec(["a", "b"], {
+    stdio: "pipe",
+    onOutput: (chunk, stream) => chunks.push(stream),
+  });
+  assert.equal(run.exitCode, 3);
+  assert.equal(run.stdout, "tool a b\n");
+  assert.deepEqual(chunks, ["stdout"]);
+
+  const helper = await runWith(result, ["c"], {
+    command: "helper",
+    stdio: "pipe",
+    env: { PATH: "/custom/bin" },
+  });
+  assert.equal(helper.exitCode, 0);
+  assert.equal(helper.stdout, "helper c\n");
+  assert.equal(
+    helper.stderr,
+    `path ${path.join(result.targetDir, "bin")}${path.delimiter}/custom/bin\n`
+  );
+
+  await assert.rejects(
+    runWith(result, [], { command: "missing" }),
+    (error) =>
+      error instanceof ConfigError &&
+      /The tool runtime in .* has no "missing" command/.test(error.message)
+  );
+});
+
+test("reports failed commands with the command and its arguments", async () => {
+  const args = ["-e", "console.error('boom'); process.exit(2)"];
+  await assert.rejects(
+    runCommand(process.execPath, args, process.env, createConsoleLogger("silent")),
+    (error) =>
+      error instanceof CommandError &&
+      error.code === "COMMAND_FAILED" &&
+      error.command === process.execPath &&
+      error.args === args &&
+      /Command failed: .*\nboom/.test(error.message)
+  );
+});
+
+test("runs npx through the Node.js runtime's node", async (t) => {
+  const dir = await createTempDir(t, "tri-run-");
+  const targetDir = path.join(dir, "node");
+  await fs.ensureDir(path.join(targetDir, "bin"));
+  await fs.symlink(process.execPath, path.join(targetDir, "bin", "node"));
+  await fs.outputFile(
+    path.join(targetDir, "lib", "node_modules", "npm", "bin", "npx-cli.js"),
+    "console.log(process.argv.slice(2).join(' '), process.env.NODE_PATH);\n"
+  );
+
+  const run = await runWith(
+    {
+      type: "node",
+      version: "v24.12.0",
+      platform: process.platform,
+      arch: process.arch,
+      targetDir,
+      executablePath: path.join(targetDir, "bin", "node"),
+    },
+    ["cowsay", "hi"],
+    { command: "npx", stdio: "pipe", logger: createConsoleLogger("silent") }
+  );
+  assert.equal(run.exitCode, 0);
+  assert.equal(run.stdout, `cowsay hi ${path.join(targetDir, "lib", "node_modules")}\n`);
+});
@@ -0,0 +1,167 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "fs-extra";
+import { ConfigError, RuntimeInjector, VerifyError, verifyInstall } from "../dist/index.js";
+import { getBinaryInfo } from "../dist/verify.js";
+import { createArchive, createTempDir, registerTool, sha256 } from "./helpers.js";
+
+const CPU_TYPE_X86_64 = 0x01000007;
+const CPU_TYPE_ARM64 = 0x0100000c;
+
+const TOOL_DEFINITION = {
+  targets: { "arm64-darwin": "darwin-arm64" },
+  executable: "bin/tool",
+};
+
+function createElf(machine) {
+  const header = Buffer.alloc(64);
+  header.writeUInt32BE(0x7f454c46, 0);
+  header[4] = 2;
+  header[5] = 1;
+  header.writeUInt16LE(machine, 18);
+  return header;
+}
+
+function createPe(machine) {
+  const header = Buffer.alloc(0x100);
+  header.write("MZ", 0, "latin1");
+  header.writeUInt32LE(0x80, 0x3c);
+  header.write("PE\0\0", 0x80, "latin1");
+  header.writeUInt16LE(machine, 0x84);
+  return header;
+}
+
+function createMachO(cputype) {
+  const header = Buffer.alloc(32);
+  header.writeUInt32LE(0xfeedfacf, 0);
+  header.writeInt32LE(cputype, 4);
+  return header;
+}
+
+async function createToolArchive(dir, binary) {
+  const archive = await createArchive(
+    dir,
+    { "bin/tool": binary, "share/tool.txt": "data\n" },
+    { name: "tool" }
+  );
+  return { archivePath: archive.archivePath, expectedSha256: archive.sha256 };
+}
+
+function injectTool(dir, archive) {
+  return new RuntimeInjector({
+    type: "tool",
+    platform: "darwin",
+    arch: "arm64",
+    targetDir: path.join(dir, "runtime", "tool"),
+    ...archive,
+    cacheDir: false,
+    offline: true,
+  }).inject();
+}
+
+test("identifies ELF, PE and Mach-O headers", () => {
+  assert.deepEqual(getBinaryInfo(createElf(0xb7)), { format: "elf", archs: ["arm64"] });
+  assert.deepEqual(getBinaryInfo(createPe(0x8664)), { format: "pe", archs: ["x64"] });
+  assert.deepEqual(getBinaryInfo(createMachO(CPU_TYPE_X86_64)), {
+    format: "macho",
+    archs: ["x64"],
+  });
+
+  const fat = Buffer.alloc(48);
+  fat.writeUInt32BE(0xcafebabe, 0);
+  fat.writeUInt32BE(2, 4);
+  fat.writeInt32BE(CPU_TYPE_X86_64, 8);
+  fat.writeInt32BE(CPU_TYPE_ARM64, 28);
+  assert.deepEqual(getBinaryInfo(fat), { format: "macho", archs: ["x64", "arm64"] });
+
+  assert.equal(getBinaryInfo(Buffer.from("#!/bin/sh\necho hi\n")), undefined);
+});
+
+test("reuses a foreign-target install after checking file hashes", async (t) => {
+  registerTool(t, TOOL_DEFINITION);
+  const dir = await createTempDir(t, "tri-verify-");
+  const archive = await createToolArchive(dir, createMachO(CPU_TYPE_ARM64));
+
+  assert.equal((await injectTool(dir, archive)).status, "installed");
+  const targetDir = path.join(dir, "runtime", "tool");
+  const marker = await fs.readJson(path.join(targetDir, "tool_darwin_arm64"));
+  assert.deepEqual(Object.keys(marker.files), ["bin/tool", "share/tool.txt"]);
+  assert.deepEqual(marker.files["share/tool.txt"], {
+    size: 5,
+    sha256: sha256("data\n"),
+  });
+
+  assert.equal((await injectTool(dir, archive)).status, "skipped");
+
+  await fs.writeFile(path.join(targetDir, "share", "tool.txt"), "edited\n");
+  assert.equal((await injectTool(dir, archive)).status, "installed");
+  assert.equal(await fs.readFile(path.join(targetDir, "share", "tool.txt"), "utf8"), "data\n");
+});
+
+test("reinstalls when the executable is built for another arch", async (t) => {
+  registerTool(t, TOOL_DEFINITION);
+  const dir = await createTempDir(t, "tri-verify-");
+  const archive = await createToolArchive(dir, createMachO(CPU_TYPE_X86_64));
+
+  assert.equal((await injectTool(dir, archive)).status, "installed");
+  assert.equal((await injectTool(dir, archive)).status, "installed");
+});
+
+test("records the install and reports missing, modified and extra files", async (t) => {
+  registerTool(t, TOOL_DEFINITION);
+  const dir = await createTempDir(t, "tri-verify-");
+  const archive = await createToolArchive(dir, createMachO(CPU_TYPE_ARM64));
+  await injectTool(dir, archive);
+
+  const options = {
+    type: "tool",
+    platform: "darwin",
+    arch: "arm64",
+    targetDir: path.join(dir, "runtime", "tool"),
+  };
+  const clean = await verifyInstall(options);
+  assert.equal(clean.ok, true);
+  assert.equal(clean.marker.type, "tool");
+  assert.equal(clean.marker.version, "1.4.0");
+  assert.deepEqual(clean.marker.sources, [
+    {
+      arch: "arm64",
+      url: "https://downloads.example.com/tool/1.4.0/tool-1.4.0-darwin-arm64.tar.gz",
+      sha256: archive.expectedSha256,
+    },
+  ]);
+  assert.equal(clean.marker.cleanup, true);
+  assert.ok(!Number.isNaN(Date.parse(clean.marker.installedAt)));
+
+  const targetDir = options.targetDir;
+  await fs.remove(path.join(targetDir, "share", "tool.txt"));
+  await fs.appendFile(path.join(targetDir, "bin", "tool"), "patched");
+  await fs.outputFile(path.join(targetDir, "lib", "injected.dylib"), "extra");
+
+  const tampered = await verifyInstall(options);
+  assert.equal(tampered.ok, false);
+  assert.deepEqual(tampered.missing, ["share/tool.txt"]);
+  assert.deepEqual(tampered.modified, ["bin/tool"]);
+  assert.deepEqual(tampered.extra, ["lib/injected.dylib"]);
+});
+
+test("verify fails without an install record", async (t) => {
+  const dir = await createTempDir(t, "tri-verify-");
+  const targetDir = path.join(dir, "runtime", "node");
+  await assert.rejects(
+    verifyInstall({ type: "node", targetDir }),
+    (error) =>
+      error instanceof VerifyError &&
+      error.code === "VERIFY_FAILED" &&
+      error.targetDir === targetDir &&
+      /No node install record found/.test(error.message)
+  );
+});
+
+test("rejects unknown verify modes", () => {
+  assert.throws(
+    () => new RuntimeInjector({ type: "node", targetDir: "runtime/node", verify: "hash" }),
+    (error) => error instanceof ConfigError && /Unknown verify mode "hash"/.test(error.message)
+  );
+});
@@ -0,0 +1,180 @@
+import test, { mock } from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import axios from "axios";
+import { RuntimeInjector, listVersions } from "../dist/index.js";
+
+const NODE_INDEX = [
+  { version: "v25.2.1", files: ["linux-x64", "osx-arm64-tar"], lts: false },
+  { version: "v24.12.0", files: ["linux-x64", "osx-arm64-tar"], lts: "Krypton" },
+  { version: "v22.21.1", files: ["linux-x64", "win-x64-zip"], lts: "Jod" },
+  { version: "v22.21.0", files: ["linux-x64", "osx-arm64-tar"], lts: "Jod" },
+  { version: "v20.19.6", files: ["linux-x64", "osx-arm64-tar"], lts: "Iron" },
+];
+
+const BUN_RELEASES = [
+  { tag_name: "canary", prerelease: true, assets: [{ name: "bun-linux-x64.zip" }] },
+  { tag_name: "bun-v1.3.5", assets: [{ name: "bun-linux-x64.zip" }] },
+  { tag_name: "bun-v1.2.23", assets: [{ name: "bun-linux-x64.zip" }] },
+  { tag_name: "bun-v1.2.22", draft: true, assets: [{ name: "bun-linux-x64.zip" }] },
+];
+
+function pythonAsset(version, date) {
+  return { name: `cpython-${version}+${date}-x86_64-unknown-linux-gnu-install_only.tar.gz` };
+}
+
+const PYTHON_RELEASES = [
+  {
+    tag_name: "20251217",
+    assets: [pythonAsset("3.13.11", "20251217"), pythonAsset("3.12.12", "20251217")],
+  },
+  {
+    tag_name: "20251120",
+    assets: [pythonAsset("3.12.12", "20251120"), pythonAsset("3.11.14", "20251120")],
+  },
+];
+
+function createInjector(options) {
+  return new RuntimeInjector({
+    platform: "linux",
+    arch: "x64",
+    targetDir: path.join(os.tmpdir(), "tiny-runtime-injector-versions-test"),
+    ...options,
+  });
+}
+
+function mockReleases(t, responses) {
+  const getMock = mock.method(axios, "get", async (url) => {
+    const data = responses[url.split("?")[0]];
+    if (!data) {
+      throw new Error(`unexpected request: ${url}`);
+    }
+    return { data };
+  });
+  t.after(() => getMock.mock.restore());
+  return getMock;
+}
+
+test("resolves Node.js LTS aliases and ranges from index.json", async (t) => {
+  mockReleases(t, { "https://nodejs.org/dist/index.json": NODE_INDEX });
+
+  const cases = [
+    [{ version: "lts" }, "v24.12.0"],
+    [{ version: "lts/jod" }, "v22.21.1"],
+    [{ version: "22.x", platform: "darwin", arch: "arm64" }, "v22.21.0"],
+    [{ version: "^20" }, "v20.19.6"],
+    [{ version: "latest" }, "v25.2.1"],
+  ];
+
+  for (const [options, expected] of cases) {
+    const injector = createInjector({ type: "node", ...options });
+    await injector.resolveVersion();
+    assert.equal(injector.runtimeInfo.version, expected, options.version);
+  }
+});
+
+test("resolves GitHub release ranges and skips drafts and prereleases", async (t) => {
+  mockReleases(t, {
+    "https://api.github.com/repos/oven-sh/bun/releases": BUN_RELEASES,
+  });
+
+  const injector = createInjector({ type: "bun", version: "~1.2" });
+  await injector.resolveVersion();
+
+  assert.equal(injector.runtimeInfo.version, "v1.2.23");
+});
+
+test("maps a Python minor version to the newest standalone build", async (t) => {
+  mockReleases(t, {
+    "https://api.github.com/repos/astral-sh/python-build-standalone/releases":
+      PYTHON_RELEASES,
+  });
+
+  const injector = createInjector({ type: "python", version: "3.12" });
+  await injector.resolveVersion();
+
+  assert.equal(injector.runtimeInfo.version, "3.12.12+20251217");
+});
+
+test("normalizes exact versions without a release lookup", async (t) => {
+  const getMock = mockReleases(t, {});
+
+  const cases = [
+    ["node", "24.12.0", "v24.12.0"],
+    ["uv", "v0.9.18", "0.9.18"],
+    ["python", "3.12.12+20251217", "3.12.12+20251217"],
+  ];
+
+  for (const [type, version, expected] of cases) {
+    const injector = createInjector({ type, version });
+    await injector.resolveVersion();
+    assert.equal(injector.runtimeInfo.version, expected);
+  }
+  assert.equal(getMock.mock.calls.length, 0);
+});
+
+test("reports ranges that no release satisfies for the target", async (t) => {
+  mockReleases(t, { "https://nodejs.org/dist/index.json": NODE_INDEX });
+
+  await assert.rejects(
+    () => createInjector({ type: "node", version: "^18" }).resolveVersion(),
+    (error) =>
+      error.code === "VERSION_NOT_FOUND" &&
+      error.requestedVersion === "^18" &&
+      /No release matches node version "\^18"/.test(error.message)
+  );
+  await assert.rejects(
+    () =>
+      createInjector({ type: "node", version: "lts/iron", platform: "win32" }).resolveVersion(),
+    /lacks node-v20\.19\.6-win-x64\.zip/
+  );
+});
+
+test("fetches index.json from a Node.js mirror", async (t) => {
+  const getMock = mockReleases(t, {
+    "https://npmmirror.com/mirrors/node/index.json": NODE_INDEX,
+  });
+
+  const injector = createInjector({
+    type: "node",
+    version: "lts",
+    mirror: "https://npmmirror.com/mirrors/node",
+  });
+  await injector.resolveVersion();
+
+  assert.equal(getMock.mock.calls.length, 1);
+  assert.equal(injector.runtimeInfo.version, "v24.12.0");
+});
+
+test("lists versions with the targets each release ships", async (t) => {
+  mockReleases(t, { "https://nodejs.org/dist/index.json": NODE_INDEX });
+
+  const versions = await listVersions({ type: "node", range: "lts/jod" });
+
+  assert.deepEqual(
+    versions.map((version) => version.version),
+    ["v22.21.1", "v22.21.0"]
+  );
+  const available = versions[0].targets
+    .filter((target) => target.available)
+    .map((target) => `${target.platform}-${target.arch}`);
+  assert.deepEqual(available, ["linux-x64", "win32-x64"]);
+  assert.ok(
+    versions[0].targets.some(
+      (target) => target.assetName === "node-v22.21.1-darwin-arm64.tar.gz" && !target.available
+    )
+  );
+});
+
+test("limits the listed GitHub releases", async (t) => {
+  mockReleases(t, {
+    "https://api.github.com/repos/oven-sh/bun/releases": BUN_RELEASES,
+  });
+
+  const versions = await listVersions({ type: "bun", limit: 1 });
+
+  assert.equal(versions.length, 1);
+  assert.equal(versions[0].version, "v1.3.5");
+  assert.equal(versions[0].targets.length, 6);
+});
@@ -0,0 +1,193 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { deflateRawSync } from "node:zlib";
+import path from "node:path";
+import fs from "fs-extra";
+import { ExtractionError, RuntimeInjector } from "../dist/index.js";
+import { crc32, extractZipFile, readZipEntries } from "../dist/zip.js";
+import { createTempDir, sha256 } from "./helpers.js";
+
+// Writes a zip the way Info-ZIP does on unix: mode bits in the external attributes
+function createZip(entries) {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.data ?? "");
+    const deflate = entry.deflate ?? data.length > 0;
+    const compressed = deflate ? deflateRawSync(data) : data;
+    const checksum = entry.crc32 ?? crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 30, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE((45 << 9) | (1 << 5) | 1, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE((entry.mode >>> 0) * 0x10000, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+test("extracts files, directories and symlinks with their unix modes", async (t) => {
+  const dir = await createTempDir(t, "tri-zip-");
+  const zipPath = path.join(dir, "archive.zip");
+  await fs.writeFile(
+    zipPath,
+    createZip([
+      { name: "pkg/", mode: 0o40755 },
+      { name: "pkg/bin/tool", data: "#!/bin/sh\necho tool\n", mode: 0o100755 },
+      { name: "pkg/README.txt", data: "readme ".repeat(100), mode: 0o100644 },
+      { name: "pkg/empty.txt", mode: 0o100644 },
+      { name: "pkg/stored.txt", data: "stored", deflate: false, mode: 0o100600 },
+      { name: "pkg/bin/tool-link", data: "tool", mode: 0o120777 },
+    ])
+  );
+
+  const entries = await readZipEntries(zipPath);
+  assert.deepEqual(
+    entries.map((entry) => [entry.name, entry.isDirectory, entry.isSymlink]),
+    [
+      ["pkg/", true, false],
+      ["pkg/bin/tool", false, false],
+      ["pkg/README.txt", false, false],
+      ["pkg/empty.txt", false, false],
+      ["pkg/stored.txt", false, false],
+      ["pkg/bin/tool-link", false, true],
+    ]
+  );
+
+  const destination = path.join(dir, "out");
+  await extractZipFile(zipPath, destination);
+
+  assert.equal(
+    await fs.readFile(path.join(destination, "pkg", "README.txt"), "utf8"),
+    "readme ".repeat(100)
+  );
+  assert.equal(await fs.readFile(path.join(destination, "pkg", "empty.txt"), "utf8"), "");
+  assert.equal(await fs.readFile(path.join(destination, "pkg", "stored.txt"), "utf8"), "stored");
+  assert.equal(
+    await fs.readlink(path.join(destination, "pkg", "bin", "tool-link")),
+    "tool"
+  );
+  if (process.platform !== "win32") {
+    const mode = (file) =>
+      fs.stat(path.join(destination, "pkg", ...file.split("/"))).then((stats) => stats.mode & 0o777);
+    assert.equal(await mode("bin/tool"), 0o755 & ~process.umask());
+    assert.equal(await mode("stored.txt"), 0o600);
+  }
+});
+
+test("skips entries that would escape the destination", async (t) => {
+  const dir = await createTempDir(t, "tri-zip-");
+  const zipPath = path.join(dir, "archive.zip");
+  await fs.writeFile(
+    zipPath,
+    createZip([
+      { name: "../evil.txt", data: "evil", mode: 0o100644 },
+      { name: "/abs/root.txt", data: "root", mode: 0o100644 },
+      { name: "link", data: "..", mode: 0o120777 },
+      { name: "link/through.txt", data: "through", mode: 0o100644 },
+    ])
+  );
+
+  const destination = path.join(dir, "out");
+  await extractZipFile(zipPath, destination);
+
+  assert.equal(await fs.pathExists(path.join(dir, "evil.txt")), false);
+  assert.equal(await fs.pathExists(path.join(dir, "through.txt")), false);
+  // Absolute entries are kept, relative to the destination, like tar does
+  assert.equal(
+    await fs.readFile(path.join(destination, "abs", "root.txt"), "utf8"),
+    "root"
+  );
+});
+
+test("rejects entries whose CRC-32 does not match", async (t) => {
+  const dir = await createTempDir(t, "tri-zip-");
+  const zipPath = path.join(dir, "archive.zip");
+  await fs.writeFile(
+    zipPath,
+    createZip([{ name: "data.txt", data: "payload", crc32: 1234, mode: 0o100644 }])
+  );
+
+  await assert.rejects(
+    extractZipFile(zipPath, path.join(dir, "out")),
+    /Corrupt zip entry data\.txt: size or CRC-32 mismatch/
+  );
+});
+
+async function injectBunZip(dir, entries) {
+  const archivePath = path.join(dir, "bun-linux-x64.zip");
+  const content = createZip(entries);
+  await fs.writeFile(archivePath, content);
+
+  return new RuntimeInjector({
+    type: "bun",
+    version: "v1.3.5",
+    platform: "linux",
+    arch: "x64",
+    targetDir: path.join(dir, "runtime", "bun"),
+    archivePath,
+    expectedSha256: sha256(content),
+    cacheDir: false,
+    offline: true,
+  }).inject();
+}
+
+test("installs zip-packaged runtimes with the built-in extractor", async (t) => {
+  const dir = await createTempDir(t, "tri-zip-");
+  const targetDir = path.join(dir, "runtime", "bun");
+  const result = await injectBunZip(dir, [
+    { name: "bun-linux-x64/", mode: 0o40755 },
+    { name: "bun-linux-x64/bun", data: "#!/bin/sh\necho 1.3.5\n", mode: 0o100755 },
+  ]);
+
+  assert.equal(result.status, "installed");
+  assert.equal(
+    await fs.readFile(path.join(targetDir, "bun"), "utf8"),
+    "#!/bin/sh\necho 1.3.5\n"
+  );
+});
+
+test("reports archives without the runtime's files as extraction failures", async (t) => {
+  const dir = await createTempDir(t, "tri-zip-");
+  await assert.rejects(
+    injectBunZip(dir, [{ name: "README.md", data: "readme", mode: 0o100644 }]),
+    (error) =>
+      error instanceof ExtractionError &&
+      error.code === "EXTRACTION_FAILED" &&
+      /Failed to extract bun-linux-x64\.zip: Could not find bun executable/.test(error.message)
+  );
+});